@@ -0,0 +1,13 @@
+import { ImapAccount } from '.'
+import { AuditActor } from './audit'
+
+// 检查用户是否可以查看账户的邮件：账户未配置白名单时不限制，
+// 否则用户本身或命令所在的频道在白名单中即可（格式均为 平台:ID）
+export function canAccess(account: ImapAccount, actor: AuditActor): boolean {
+  const users = account.allowedUsers || []
+  const channels = account.allowedChannels || []
+  if (!users.length && !channels.length) return true
+
+  return users.includes(`${actor.platform}:${actor.userId}`)
+    || (!!actor.channelId && channels.includes(`${actor.platform}:${actor.channelId}`))
+}
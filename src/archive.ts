@@ -0,0 +1,180 @@
+import { createHash } from 'crypto'
+import { $, Context, Logger, Query } from 'koishi'
+import { Config } from '.'
+import { canAccess } from './access'
+import { getActor, recordAudit } from './audit'
+import { formatDate, truncate } from './template'
+
+declare module 'koishi' {
+  interface Tables {
+    mailbot_archive: ArchivedMail
+  }
+}
+
+// 已处理邮件的存档：邮件头、清理后的正文、提取的验证码和源码哈希
+export interface ArchivedMail {
+  id: number
+  account: string
+  folder: string
+  uidValidity: number
+  uid: number
+  messageId: string
+  sender: string
+  recipient: string
+  subject: string
+  date: Date
+  text: string
+  code: string
+  sourceHash: string // 原始源码的 SHA-256
+  createdAt: Date
+}
+
+const logger = new Logger('mailbot')
+
+// 注册存档数据表，同一封邮件只存档一次
+export function extendArchive(ctx: Context) {
+  ctx.model.extend('mailbot_archive', {
+    id: 'unsigned',
+    account: 'string',
+    folder: 'string',
+    uidValidity: 'unsigned',
+    uid: 'unsigned',
+    messageId: 'string',
+    sender: 'string',
+    recipient: 'string',
+    subject: 'string',
+    date: 'timestamp',
+    text: 'text',
+    code: 'string',
+    sourceHash: 'string',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+    unique: [['account', 'folder', 'uidValidity', 'uid']],
+  })
+}
+
+// 计算邮件源码的哈希
+export function hashSource(source: Buffer): string {
+  return createHash('sha256').update(source).digest('hex')
+}
+
+// 存档邮件，写入失败只记录日志，不影响通知
+export async function archiveMail(ctx: Context, mail: Omit<ArchivedMail, 'id' | 'createdAt'>): Promise<void> {
+  try {
+    await ctx.database.upsert('mailbot_archive', [{ ...mail, createdAt: new Date() }], ['account', 'folder', 'uidValidity', 'uid'])
+  } catch (error) {
+    logger.warn(`[${mail.account}] 存档邮件失败 (UID: ${mail.uid}):`, error.message)
+  }
+}
+
+// 查找存档的邮件，UIDVALIDITY 变化过时返回最新存档的一封
+export async function findArchivedMail(ctx: Context, account: string, folder: string, uid: number): Promise<ArchivedMail | undefined> {
+  const [mail] = await ctx.database.select('mailbot_archive')
+    .where({ account, folder, uid })
+    .orderBy('id', 'desc')
+    .limit(1)
+    .execute()
+  return mail
+}
+
+// 按保留天数和每个账户的数量上限清理存档
+export async function pruneArchive(ctx: Context, config: Config): Promise<void> {
+  if (config.archiveRetentionDays) {
+    const deadline = new Date(Date.now() - config.archiveRetentionDays * 24 * 60 * 60 * 1000)
+    await ctx.database.remove('mailbot_archive', { createdAt: { $lt: deadline } })
+  }
+
+  if (config.archiveMaxMails) {
+    for (const { name } of config.imap) {
+      const expired = await ctx.database.select('mailbot_archive')
+        .where({ account: name })
+        .orderBy('id', 'desc')
+        .offset(config.archiveMaxMails)
+        .project(['id'])
+        .execute()
+      if (expired.length) {
+        await ctx.database.remove('mailbot_archive', { id: expired.map(item => item.id) })
+      }
+    }
+  }
+}
+
+// 转义正则中的特殊字符
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// 存档列表中不显示验证码，只标记提取到了验证码
+function formatHistoryItem(mail: ArchivedMail, index: number, config: Config, redact: (text: string) => string): string {
+  const source = mail.folder === 'INBOX' ? mail.account : `${mail.account}/${mail.folder}`
+  return `${index}. ${redact(mail.subject)}${mail.code ? ' 🔐' : ''}\n` +
+    `   📤 ${mail.sender}\n` +
+    `   📅 ${formatDate(mail.date, config.locale, config.timezone)} · [${source}] UID ${mail.uid}`
+}
+
+// 注册存档清理和历史邮件查询命令，redact 为聊天输出的脱敏函数
+export function applyArchive(ctx: Context, config: Config, redact: (text: string) => string) {
+  extendArchive(ctx)
+
+  // 每小时按保留规则清理一次
+  ctx.setInterval(() => {
+    pruneArchive(ctx, config).catch(error => logger.error('清理邮件存档失败:', error))
+  }, 60 * 60 * 1000)
+
+  ctx.command('mailbot.history [account:string]', '在本地存档中搜索已处理的邮件', { authority: config.viewAuthority })
+    .option('from', '--from <value:string> 发件人包含')
+    .option('keyword', '-k, --keyword <value:string> 主题或正文包含')
+    .option('days', '-d, --days <days:posint> 最近几天内')
+    .option('limit', '-l <limit:posint> 每页数量（默认为 fetchLimit 配置）')
+    .option('page', '-p <page:posint> 查看指定页', { fallback: 1 })
+    .example('mailbot.history --from github -d 7      # 最近 7 天 GitHub 的邮件')
+    .example('mailbot.history -k 发票 work            # 账户 work 中主题或正文包含发票的邮件')
+    .action(async ({ session, options }, account) => {
+      // 只搜索当前用户有权查看的账户
+      const accounts = config.imap
+        .filter(item => !account || item.name === account)
+        .filter(item => canAccess(item, getActor(session)))
+        .map(item => item.name)
+      if (!accounts.length) {
+        return account && config.imap.some(item => item.name === account)
+          ? `🔒 你没有权限查看账户 ${account} 的邮件`
+          : `❌ 未找到邮箱账户: ${account || ''}`
+      }
+
+      const conditions: Query.Expr<ArchivedMail>[] = [{ account: accounts }]
+      if (options.from) conditions.push({ sender: { $regex: new RegExp(escapeRegExp(options.from), 'i') } })
+      if (options.keyword) {
+        const keyword = new RegExp(escapeRegExp(options.keyword), 'i')
+        conditions.push({ $or: [{ subject: { $regex: keyword } }, { text: { $regex: keyword } }] })
+      }
+      if (options.days) conditions.push({ date: { $gte: new Date(Date.now() - options.days * 24 * 60 * 60 * 1000) } })
+      const query: Query<ArchivedMail> = { $and: conditions }
+
+      const limit = options.limit || config.fetchLimit
+      const page = options.page
+      const total: number = await ctx.database.eval('mailbot_archive', row => $.count(row.id), query)
+      const mails = await ctx.database.select('mailbot_archive')
+        .where(query)
+        .orderBy('date', 'desc')
+        .offset((page - 1) * limit)
+        .limit(limit)
+        .execute()
+      await recordAudit(ctx, getActor(session), {
+        action: 'history',
+        account: account || '',
+        folder: '',
+        uid: 0,
+        detail: truncate(JSON.stringify(options), 200),
+      })
+
+      if (!total) return '📭 存档中没有符合条件的邮件'
+      const pages = Math.ceil(total / limit)
+      if (page > pages) return `❌ 页码超出范围，共 ${pages} 页`
+
+      const items = mails.map((mail, index) => formatHistoryItem(mail, (page - 1) * limit + index + 1, config, redact))
+      return `🗄️ 存档中共有 ${total} 封符合条件的邮件 (第 ${page}/${pages} 页):\n\n${items.join('\n\n')}` +
+        (page < pages ? `\n\n使用 -p ${page + 1} 查看下一页` : '') +
+        '\n使用 mailbot.show <UID> <账户> 查看邮件'
+    })
+}
@@ -0,0 +1,39 @@
+import { h } from 'koishi'
+import { EmailAttachment } from '.'
+import { globToRegExp } from './utils'
+
+// 附件转发限制
+export interface AttachmentOptions {
+  allowedTypes: string[] // 允许的 MIME 类型，支持通配符，如 image/*
+  maxSize: number // 字节
+  inlineImages: boolean // 是否转发 HTML 正文中内嵌的图片
+}
+
+// 检查附件的 MIME 类型是否在允许列表中
+export function isAllowedType(contentType: string, allowedTypes: string[]): boolean {
+  return allowedTypes.some(pattern => globToRegExp(pattern).test(contentType))
+}
+
+// 筛选可以转发的附件
+export function filterAttachments(attachments: EmailAttachment[], options: AttachmentOptions): EmailAttachment[] {
+  return attachments.filter((attachment) => {
+    if (attachment.inline && !options.inlineImages) return false
+    if (attachment.size > options.maxSize) return false
+    return isAllowedType(attachment.contentType, options.allowedTypes)
+  })
+}
+
+// 将附件转换为消息元素：图片使用 image 元素，其他类型使用 file 元素
+export function attachmentElement(attachment: EmailAttachment): h {
+  if (attachment.contentType.startsWith('image/')) {
+    return h.image(attachment.content, attachment.contentType)
+  }
+  return h.file(attachment.content, attachment.contentType, { title: attachment.filename })
+}
+
+// 格式化文件大小
+export function formatSize(size: number): string {
+  if (size < 1024) return `${size} B`
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`
+  return `${(size / 1024 / 1024).toFixed(1)} MB`
+}
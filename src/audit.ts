@@ -0,0 +1,119 @@
+import { Context, h, Logger, Session } from 'koishi'
+import { Config } from '.'
+import { formatDate } from './template'
+
+declare module 'koishi' {
+  interface Tables {
+    mailbot_audit: AuditLog
+  }
+}
+
+// 审计的操作：查看列表/搜索/存档/邮件内容、认领、操作邮箱和发信
+export type AuditAction = 'list' | 'search' | 'history' | 'show' | 'render' | 'attachments' | 'mark' | 'move' | 'delete' | 'reply' | 'send' | 'claim' | 'claimed'
+
+// 操作者：执行命令的用户及所在频道（私聊时为空）
+export interface AuditActor {
+  platform: string
+  userId: string
+  channelId: string
+}
+
+// 审计记录，uid 为 0 表示不针对单封邮件（如列表和搜索）
+export interface AuditLog extends AuditActor {
+  id: number
+  action: AuditAction
+  account: string
+  folder: string
+  uid: number
+  detail: string
+  createdAt: Date
+}
+
+const logger = new Logger('mailbot')
+
+// 注册审计数据表
+export function extendAudit(ctx: Context) {
+  ctx.model.extend('mailbot_audit', {
+    id: 'unsigned',
+    platform: 'string',
+    userId: 'string',
+    channelId: 'string',
+    action: 'string',
+    account: 'string',
+    folder: 'string',
+    uid: 'unsigned',
+    detail: 'text',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+  })
+}
+
+// 获取会话的操作者
+export function getActor(session: Session): AuditActor {
+  return { platform: session.platform, userId: session.userId, channelId: session.isDirect ? '' : session.channelId }
+}
+
+// 写入审计记录，写入失败只记录日志，不影响命令执行
+export async function recordAudit(ctx: Context, actor: AuditActor, entry: Omit<AuditLog, keyof AuditActor | 'id' | 'createdAt' | 'detail'> & { detail?: string }) {
+  try {
+    await ctx.database.create('mailbot_audit', {
+      platform: actor.platform,
+      userId: actor.userId,
+      channelId: actor.channelId,
+      detail: '',
+      ...entry,
+      createdAt: new Date(),
+    })
+  } catch (error) {
+    logger.warn(`写入审计记录失败 (${entry.action} UID ${entry.uid}):`, error.message)
+  }
+}
+
+function formatAuditLog(log: AuditLog, config: Config): string {
+  const source = log.folder === 'INBOX' ? log.account : `${log.account}/${log.folder}`
+  const where = log.channelId ? `频道 ${log.channelId}` : '私聊'
+  return `${formatDate(log.createdAt, config.locale, config.timezone)} ${log.platform}:${log.userId} (${where}) ` +
+    `${log.action} [${source}]${log.uid ? ` UID ${log.uid}` : ''}${log.detail ? ` ${log.detail}` : ''}`
+}
+
+// 注册审计日志查询命令
+export function applyAudit(ctx: Context, config: Config) {
+  extendAudit(ctx)
+
+  ctx.command('mailbot.audit [query:string]', '查询谁在何时查看或操作了哪些邮件', { authority: config.auditAuthority })
+    .option('account', '-a <account:string> 只查看指定账户')
+    .option('limit', '-l <limit:posint> 显示条数', { fallback: 20 })
+    .example('mailbot.audit            # 最近的审计记录')
+    .example('mailbot.audit 123        # 邮件 UID 123 的记录')
+    .example('mailbot.audit @用户      # 指定用户的记录（也可写作 平台:用户ID）')
+    .action(async ({ session, options }, query) => {
+      const filter: Partial<Pick<AuditLog, 'platform' | 'userId' | 'uid' | 'account'>> = {}
+      if (options.account) filter.account = options.account
+
+      // 纯数字按 UID 查询，@ 用户或 平台:用户ID 按用户查询
+      if (query) {
+        const at = h.select(h.parse(query), 'at')[0]
+        if (at) {
+          filter.platform = session.platform
+          filter.userId = at.attrs.id
+        } else if (/^\d+$/.test(query)) {
+          filter.uid = Number(query)
+        } else if (query.includes(':')) {
+          const index = query.indexOf(':')
+          filter.platform = query.slice(0, index)
+          filter.userId = query.slice(index + 1)
+        } else {
+          return '❌ 请输入邮件 UID、@用户或 平台:用户ID'
+        }
+      }
+
+      const logs = await ctx.database.select('mailbot_audit')
+        .where(filter)
+        .orderBy('id', 'desc')
+        .limit(options.limit)
+        .execute()
+      if (!logs.length) return '📭 没有匹配的审计记录'
+      return `🔎 审计记录 (最近 ${logs.length} 条):\n` + logs.map(log => formatAuditLog(log, config)).join('\n')
+    })
+}
@@ -0,0 +1,168 @@
+import { Context, Logger } from 'koishi'
+import { Config } from '.'
+import { DeliveryTarget, describeTarget } from './delivery'
+import { globToRegExp } from './utils'
+
+declare module 'koishi' {
+  interface Tables {
+    mailbot_binding: Binding
+  }
+}
+
+// 收件地址绑定：别名/转发地址（支持 * 和 ? 通配符）归属于某个用户
+export interface Binding {
+  id: number
+  pattern: string
+  account: string // 为空表示所有账户
+  platform: string
+  selfId: string
+  userId: string
+  createdAt: Date
+}
+
+const logger = new Logger('mailbot')
+
+// 注册收件地址绑定数据表
+export function extendBinding(ctx: Context) {
+  ctx.model.extend('mailbot_binding', {
+    id: 'unsigned',
+    pattern: 'string',
+    account: 'string',
+    platform: 'string',
+    selfId: 'string',
+    userId: 'string',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+  })
+}
+
+// 从邮件头部提取所有收件地址（To、Delivered-To、X-Original-To）
+export function extractRecipients(headers: { to: string; deliveredTo?: string[]; originalTo?: string[] }): string[] {
+  const fields = [headers.to, ...(headers.deliveredTo || []), ...(headers.originalTo || [])]
+  const addresses = new Set<string>()
+  for (const field of fields) {
+    if (!field) continue
+    for (const address of field.match(/[^\s<>,;:"']+@[^\s<>,;:"']+/g) || []) {
+      addresses.add(address.toLowerCase())
+    }
+  }
+  return [...addresses]
+}
+
+// 检查收件地址是否匹配绑定模式
+export function matchBinding(binding: Binding, account: string, recipients: string[]): boolean {
+  if (binding.account && binding.account !== account) return false
+  const regexp = globToRegExp(binding.pattern)
+  return recipients.some(address => regexp.test(address))
+}
+
+// 获取邮件收件地址对应的所有者（私聊投递目标）
+export async function getAddressOwners(ctx: Context, account: string, headers: { to: string; deliveredTo?: string[]; originalTo?: string[] }): Promise<DeliveryTarget[]> {
+  const recipients = extractRecipients(headers)
+  if (recipients.length === 0) return []
+
+  const bindings = await ctx.database.get('mailbot_binding', {
+    account: { $in: ['', account] },
+  })
+
+  const owners = new Map<string, DeliveryTarget>()
+  for (const binding of bindings) {
+    if (!matchBinding(binding, account, recipients)) continue
+    const key = `${binding.platform}:${binding.userId}`
+    if (owners.has(key)) continue
+    owners.set(key, {
+      platform: binding.platform,
+      selfId: binding.selfId,
+      channelId: '',
+      guildId: '',
+      userId: binding.userId,
+    })
+  }
+
+  logger.debug(`收件地址 ${recipients.join(', ')} 匹配到 ${owners.size} 个所有者`)
+  return [...owners.values()]
+}
+
+// 注册收件地址绑定相关命令
+export function applyBinding(ctx: Context, config: Config) {
+  extendBinding(ctx)
+
+  ctx.command('mailbot.bind <address:string>', '将收件地址绑定到用户，该地址的邮件只私聊发送给此用户', { authority: config.manageAuthority })
+    .option('user', '-u <user:user> 绑定到指定用户（默认为自己）')
+    .option('account', '-a <account:string> 只匹配指定账户的邮件')
+    .example('mailbot.bind alice@alias.edu.cn')
+    .example('mailbot.bind *.cs@alias.edu.cn -u @某人')
+    .action(async ({ session, options }, address) => {
+      if (!address || !address.includes('@')) {
+        return '❌ 请输入有效的收件地址，如 mailbot.bind alice@alias.edu.cn'
+      }
+
+      const account = options.account || ''
+      if (account && !config.imap.some(item => item.name === account)) {
+        return `❌ 未找到邮箱账户: ${account}`
+      }
+
+      // user 类型的选项格式为 "平台:用户ID"
+      let platform = session.platform
+      let userId = session.userId
+      if (options.user) {
+        const index = options.user.indexOf(':')
+        platform = options.user.slice(0, index)
+        userId = options.user.slice(index + 1)
+      }
+
+      const pattern = address.toLowerCase()
+      const [existing] = await ctx.database.get('mailbot_binding', { pattern, account })
+      if (existing) {
+        if (existing.platform === platform && existing.userId === userId) {
+          return `📌 该地址已绑定到此用户 (#${existing.id})`
+        }
+        return `❌ 该地址已绑定到其他用户 (${existing.platform}:${existing.userId})，请先使用 mailbot.unbind 解除`
+      }
+
+      const binding = await ctx.database.create('mailbot_binding', {
+        pattern,
+        account,
+        platform,
+        selfId: session.platform === platform ? session.selfId : '',
+        userId,
+        createdAt: new Date(),
+      })
+
+      logger.info(`新增收件地址绑定 #${binding.id}: ${pattern} -> ${describeTarget({ ...binding, channelId: '', guildId: '' })}`)
+      return `✅ 绑定成功 (#${binding.id})\n` +
+        `📧 地址: ${pattern}\n` +
+        `👤 用户: ${userId}`
+    })
+
+  ctx.command('mailbot.unbind <address:string>', '解除收件地址绑定', { authority: config.manageAuthority })
+    .action(async ({ session }, address) => {
+      if (!address) return '❌ 请输入要解除绑定的收件地址'
+
+      const bindings = await ctx.database.get('mailbot_binding', { pattern: address.toLowerCase() })
+      if (!bindings.length) {
+        return '📭 没有找到该地址的绑定'
+      }
+
+      await ctx.database.remove('mailbot_binding', { id: bindings.map(binding => binding.id) })
+      logger.info(`移除收件地址绑定: ${bindings.map(binding => `#${binding.id}`).join(', ')}`)
+      return `🗑️ 已解除 ${bindings.length} 个绑定`
+    })
+
+  ctx.command('mailbot.bindings [user:user]', '查看收件地址绑定', { authority: config.manageAuthority })
+    .action(async ({ session }, user) => {
+      const query = user
+        ? { platform: user.slice(0, user.indexOf(':')), userId: user.slice(user.indexOf(':') + 1) }
+        : {}
+      const bindings = await ctx.database.get('mailbot_binding', query)
+      if (!bindings.length) {
+        return '📭 暂无收件地址绑定'
+      }
+
+      return `📒 收件地址绑定 (${bindings.length} 个):\n` + bindings
+        .map(binding => `#${binding.id} ${binding.pattern} -> ${binding.platform}:${binding.userId}` +
+          (binding.account ? ` [${binding.account}]` : ''))
+        .join('\n')
+    })
+}
@@ -0,0 +1,132 @@
+import { Context, Logger } from 'koishi'
+import { Config } from '.'
+import { canAccess } from './access'
+import { getActor, recordAudit } from './audit'
+import { DeliveryTarget, sendToTarget } from './delivery'
+import { formatDate } from './template'
+import { extractAddress, globToRegExp, parseDuration } from './utils'
+
+// 认领：用户等待共享邮箱的下一封匹配邮件，邮件只私聊发送给该用户
+export interface MailClaim {
+  id: number
+  account: string
+  from: string // 发件人匹配条件，为空时匹配任意邮件
+  target: DeliveryTarget
+  createdAt: Date
+  expiresAt: Date
+}
+
+export interface ClaimRegistry {
+  add(account: string, target: DeliveryTarget, from: string, timeout: number): MailClaim
+  take(account: string, sender: string, arrivedAt: Date): MailClaim | null
+  cancel(account: string, userId: string): boolean
+  list(account?: string): MailClaim[]
+}
+
+const logger = new Logger('mailbot')
+
+// 认领最长等待时间
+const MAX_CLAIM_TIMEOUT = 60 * 60 * 1000
+
+// 检查发件人是否符合认领条件：含通配符时整串匹配发件人地址，否则按关键词匹配
+export function matchClaim(claim: MailClaim, sender: string): boolean {
+  if (!claim.from) return true
+  if (/[*?]/.test(claim.from)) {
+    return globToRegExp(claim.from).test(extractAddress(sender))
+  }
+  return sender.toLowerCase().includes(claim.from.toLowerCase())
+}
+
+// 创建认领登记表：按账户保存，先登记的认领优先；认领超时后私聊通知用户
+export function createClaimRegistry(ctx: Context): ClaimRegistry {
+  const claims = new Map<string, MailClaim[]>()
+  const timers = new Map<number, () => void>()
+  let nextId = 1
+
+  const remove = (claim: MailClaim) => {
+    const list = claims.get(claim.account) || []
+    claims.set(claim.account, list.filter(item => item !== claim))
+    timers.get(claim.id)?.()
+    timers.delete(claim.id)
+  }
+
+  return {
+    add(account, target, from, timeout) {
+      // 同一用户在同一账户只保留最新的认领
+      const previous = claims.get(account)?.find(claim => claim.target.userId === target.userId && claim.target.platform === target.platform)
+      if (previous) remove(previous)
+
+      const now = new Date()
+      const claim: MailClaim = { id: nextId++, account, from, target, createdAt: now, expiresAt: new Date(now.getTime() + timeout) }
+      claims.set(account, [...claims.get(account) || [], claim])
+      timers.set(claim.id, ctx.setTimeout(() => {
+        timers.delete(claim.id)
+        remove(claim)
+        logger.info(`[${account}] 认领 #${claim.id} 已超时`)
+        sendToTarget(ctx, target, `⌛ 等待超时，没有收到${from ? `来自 ${from} 的` : ''}新邮件 (${account})`)
+          .catch(error => logger.warn(`发送认领超时通知失败:`, error.message))
+      }, timeout))
+      return claim
+    },
+
+    // 只认领登记之后到达的邮件，重连或重试时补获取的旧邮件照常分发；INTERNALDATE 只精确到秒
+    take(account, sender, arrivedAt) {
+      const claim = claims.get(account)?.find(claim => arrivedAt.getTime() >= Math.floor(claim.createdAt.getTime() / 1000) * 1000 && matchClaim(claim, sender))
+      if (!claim) return null
+      remove(claim)
+      return claim
+    },
+
+    cancel(account, userId) {
+      const claim = claims.get(account)?.find(claim => claim.target.userId === userId)
+      if (!claim) return false
+      remove(claim)
+      return true
+    },
+
+    list(account) {
+      return account ? [...claims.get(account) || []] : [...claims.values()].flat()
+    },
+  }
+}
+
+// 描述认领，用于状态命令
+export function describeClaim(claim: MailClaim, config: Config): string {
+  return `#${claim.id} ${claim.target.platform}:${claim.target.userId}` +
+    `${claim.from ? ` (发件人: ${claim.from})` : ''}，` +
+    `${formatDate(claim.expiresAt, config.locale, config.timezone)} 过期`
+}
+
+// 注册认领命令
+export function applyClaim(ctx: Context, config: Config, registry: ClaimRegistry) {
+  ctx.command('mailbot.wait [account:string]', '认领共享邮箱的下一封邮件，邮件只私聊发送给自己', { authority: config.claimAuthority })
+    .option('from', '--from <pattern:string> 发件人关键词或地址通配符')
+    .option('timeout', '-t, --timeout <duration:string> 等待时间，如 30s、5m（默认 5 分钟，最长 1 小时）')
+    .option('cancel', '-c, --cancel 取消等待')
+    .example('mailbot.wait                       # 等待下一封邮件')
+    .example('mailbot.wait --from github -t 10m  # 等待 GitHub 发来的邮件，最多 10 分钟')
+    .example('mailbot.wait --from "*@example.com"  # 等待指定域名发来的邮件')
+    .action(async ({ session, options }, account) => {
+      account ||= config.imap[0]?.name
+      const imapAccount = config.imap.find(item => item.name === account)
+      if (!imapAccount) return `❌ 未找到邮箱账户: ${account || ''}`
+      if (!canAccess(imapAccount, getActor(session))) return `🔒 你没有权限查看账户 ${account} 的邮件`
+
+      if (options.cancel) {
+        return registry.cancel(account, session.userId) ? '🗑️ 已取消等待' : '📭 你没有正在等待的认领'
+      }
+
+      const timeout = options.timeout ? parseDuration(options.timeout) : 5 * 60 * 1000
+      if (!timeout) return '❌ 等待时间格式无效，如 30s、5m、1h'
+      if (timeout > MAX_CLAIM_TIMEOUT) return '❌ 等待时间最长 1 小时'
+
+      const target: DeliveryTarget = { platform: session.platform, selfId: session.selfId, channelId: '', guildId: '', userId: session.userId }
+      const claim = registry.add(account, target, options.from || '', timeout)
+      const ahead = registry.list(account).filter(item => item.id < claim.id).length
+      logger.info(`[${account}] 新增认领 #${claim.id}: ${target.platform}:${target.userId} (发件人: ${claim.from || '任意'})`)
+      await recordAudit(ctx, getActor(session), { action: 'claim', account, folder: '', uid: 0, detail: `#${claim.id} ${claim.from}`.trim() })
+      return `⏳ 正在等待 ${account} 的下一封${claim.from ? `来自 ${claim.from} 的` : ''}邮件，收到后将私聊发送给你\n` +
+        `⏰ 过期时间: ${formatDate(claim.expiresAt, config.locale, config.timezone)}` +
+        (ahead ? `\n👥 前面还有 ${ahead} 人在等待` : '')
+    })
+}
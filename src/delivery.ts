@@ -0,0 +1,46 @@
+import { Context, Fragment } from 'koishi'
+
+// 通知投递目标：频道或用户私聊
+export interface DeliveryTarget {
+  platform: string
+  selfId: string // 为空时使用该平台的任意一个机器人
+  channelId: string // 私聊目标时为空
+  guildId: string
+  userId: string // 频道目标时为空
+}
+
+// 解析 "平台:频道ID" 格式的频道配置
+export function parseChannelTarget(value: string): DeliveryTarget | null {
+  const index = value.indexOf(':')
+  if (index <= 0 || index === value.length - 1) return null
+  const channelId = value.slice(index + 1)
+  return { platform: value.slice(0, index), selfId: '', channelId, guildId: channelId, userId: '' }
+}
+
+// 投递目标的唯一标识，用于分组和限流
+export function getTargetKey(target: DeliveryTarget): string {
+  return [target.platform, target.selfId, target.channelId, target.userId].join(':')
+}
+
+// 描述投递目标，用于日志和命令回复
+export function describeTarget(target: DeliveryTarget): string {
+  return target.channelId
+    ? `${target.platform} 频道 ${target.channelId}`
+    : `${target.platform} 用户 ${target.userId}`
+}
+
+// 通过对应机器人向投递目标发送消息，返回发送的消息 ID
+export async function sendToTarget(ctx: Context, target: DeliveryTarget, content: Fragment): Promise<string[]> {
+  const bot = target.selfId
+    ? ctx.bots[`${target.platform}:${target.selfId}`]
+    : ctx.bots.find(bot => bot.platform === target.platform)
+  if (!bot) {
+    throw new Error(`机器人 ${target.platform}:${target.selfId || '*'} 不在线`)
+  }
+
+  if (target.channelId) {
+    return bot.sendMessage(target.channelId, content, target.guildId)
+  } else {
+    return bot.sendPrivateMessage(target.userId, content)
+  }
+}
@@ -0,0 +1,163 @@
+import { Context, Logger } from 'koishi'
+import { Config } from '.'
+import { DeliveryTarget, describeTarget, getTargetKey, sendToTarget } from './delivery'
+import { formatDate } from './template'
+import { isQuietTime, RateLimiter } from './throttle'
+import { isValidCron, matchCron } from './utils'
+
+declare module 'koishi' {
+  interface Tables {
+    mailbot_digest: DigestItem
+  }
+}
+
+// 摘要模式：关闭、按时间窗口合并、按 cron 定时发送
+export type DigestMode = 'off' | 'window' | 'schedule'
+
+// 邮件暂缓发送的原因：摘要模式、免打扰时段、超出发送频率限制
+export type DigestReason = 'digest' | 'quiet' | 'limited'
+
+// 等待合并发送的邮件，每个投递目标一条记录
+export interface DigestItem extends DeliveryTarget {
+  id: number
+  reason: DigestReason
+  quietHours: string // 加入时目标的免打扰时段，时段结束后才发送
+  account: string
+  folder: string
+  uid: number
+  sender: string
+  subject: string
+  date: Date
+  createdAt: Date
+}
+
+const logger = new Logger('mailbot')
+
+// 注册摘要数据表
+export function extendDigest(ctx: Context) {
+  ctx.model.extend('mailbot_digest', {
+    id: 'unsigned',
+    platform: 'string',
+    selfId: 'string',
+    channelId: 'string',
+    guildId: 'string',
+    userId: 'string',
+    reason: 'string',
+    quietHours: 'string',
+    account: 'string',
+    folder: 'string',
+    uid: 'unsigned',
+    sender: 'string',
+    subject: 'string',
+    date: 'timestamp',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+  })
+}
+
+// 将邮件加入投递目标的待发送摘要
+export async function queueDigest(ctx: Context, target: DeliveryTarget, mail: Omit<DigestItem, keyof DeliveryTarget | 'id' | 'createdAt'>): Promise<DigestItem> {
+  return ctx.database.create('mailbot_digest', {
+    platform: target.platform,
+    selfId: target.selfId,
+    channelId: target.channelId,
+    guildId: target.guildId,
+    userId: target.userId,
+    ...mail,
+    createdAt: new Date(),
+  })
+}
+
+// 按投递目标分组
+function groupByTarget(items: DigestItem[]): DigestItem[][] {
+  const groups = new Map<string, DigestItem[]>()
+  for (const item of items) {
+    const key = getTargetKey(item)
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key).push(item)
+  }
+  return [...groups.values()]
+}
+
+// 生成摘要消息
+function formatDigest(items: DigestItem[], config: Config): string {
+  const lines = items.map((item, index) => {
+    const source = item.folder === 'INBOX' ? item.account : `${item.account}/${item.folder}`
+    return `${index + 1}. ${item.subject}\n` +
+      `   📤 ${item.sender}\n` +
+      `   📅 ${formatDate(item.date, config.locale, config.timezone)} · [${source}] UID ${item.uid}`
+  })
+  const title = items.every(item => item.reason === 'quiet') ? '🌙 免打扰时段内收到的邮件'
+    : items.some(item => item.reason === 'limited') ? '⏱️ 通知过于频繁，已合并发送'
+    : '📰 邮件摘要'
+  return `${title} (${items.length} 封)\n\n${lines.join('\n')}\n\n使用 mailbot.show <UID> <账户> 查看邮件`
+}
+
+// 发送摘要：filter 返回 true 的目标才会发送，发送成功后删除记录，返回发送的目标数
+export async function flushDigest(ctx: Context, config: Config, filter: (items: DigestItem[]) => boolean = () => true): Promise<number> {
+  const items = await ctx.database.get('mailbot_digest', {})
+  let sent = 0
+
+  for (const group of groupByTarget(items)) {
+    if (!filter(group)) continue
+    try {
+      await sendToTarget(ctx, group[0], formatDigest(group, config))
+      await ctx.database.remove('mailbot_digest', { id: group.map(item => item.id) })
+      logger.info(`📰 已发送 ${group.length} 封邮件的摘要到 ${describeTarget(group[0])}`)
+      sent++
+    } catch (error) {
+      // 发送失败的摘要保留到下次再发送
+      logger.error(`发送邮件摘要到 ${describeTarget(group[0])} 失败:`, error.message)
+    }
+  }
+
+  return sent
+}
+
+// 注册摘要命令和定时发送，摘要消息同样受目标的限流器限制
+export function applyDigest(ctx: Context, config: Config, limiter: RateLimiter) {
+  extendDigest(ctx)
+
+  if (config.digestMode === 'schedule' && !isValidCron(config.digestSchedule)) {
+    logger.warn(`摘要发送时间的 cron 表达式无效: ${config.digestSchedule}`)
+  }
+
+  // 每 30 秒检查一次，同一分钟内只按 cron 发送一次
+  let lastMinute = ''
+  ctx.setInterval(() => {
+    const now = new Date()
+    const deadline = now.getTime() - config.digestWindow * 60000
+    const minute = `${now.toDateString()} ${now.getHours()}:${now.getMinutes()}`
+    const scheduled = config.digestMode === 'schedule' && minute !== lastMinute && matchCron(config.digestSchedule, now, config.timezone)
+    if (scheduled) lastMinute = minute
+
+    flushDigest(ctx, config, (group) => {
+      // 免打扰时段结束前不发送
+      if (isQuietTime(group[0].quietHours, now, config.timezone)) return false
+
+      // 因免打扰或限流暂缓的邮件在条件满足后立即发送，其余按摘要模式发送
+      const due = group.some(item => item.reason !== 'digest')
+        || config.digestMode === 'off'
+        || (config.digestMode === 'window' && group.some(item => item.createdAt.getTime() <= deadline))
+        || scheduled
+      return due && limiter.take(getTargetKey(group[0]))
+    }).catch(error => logger.error('发送邮件摘要失败:', error))
+  }, 30000)
+
+  ctx.command('mailbot.digest [action:string]', '查看待发送的邮件摘要，now 立即发送', { authority: config.manageAuthority })
+    .example('mailbot.digest      # 查看各目标待发送的邮件数')
+    .example('mailbot.digest now  # 立即发送所有待发送的摘要')
+    .action(async (_, action) => {
+      if (action === 'now') {
+        const sent = await flushDigest(ctx, config)
+        return sent ? `📰 已发送 ${sent} 个目标的邮件摘要` : '📭 没有待发送的邮件摘要'
+      }
+      if (action) return '❌ 未知操作，可选: now'
+
+      const groups = groupByTarget(await ctx.database.get('mailbot_digest', {}))
+      if (!groups.length) return '📭 没有待发送的邮件摘要'
+      return `📰 待发送的邮件摘要 (模式: ${config.digestMode}):\n` +
+        groups.map(group => `${describeTarget(group[0])}: ${group.length} 封`).join('\n')
+    })
+}
@@ -0,0 +1,140 @@
+import { Logger } from 'koishi'
+
+// 验证码提取规则，pattern 的第一个捕获组为验证码（或登录链接）
+export interface CodeRule {
+  name: string
+  sender?: RegExp // 只对匹配的发件人生效，为空匹配所有发件人
+  pattern: RegExp
+}
+
+// 提取到的验证码信息
+export interface ExtractedCode {
+  rule: string
+  code?: string
+  link?: string
+  expiry?: string
+  confident: boolean // 规则匹配到的验证码，或主题与登录有关的登录链接；只根据链接附近措辞判断的登录链接不可靠
+}
+
+// 用于提取的邮件内容
+export interface CodeSource {
+  from: string
+  subject: string
+  text: string
+  html: string
+}
+
+export type CodeExtractor = (mail: CodeSource) => ExtractedCode | null
+
+const logger = new Logger('mailbot')
+
+// 内置规则：先匹配常见服务的专用格式，再匹配通用格式
+export const builtinCodeRules: CodeRule[] = [
+  { name: 'github', sender: /github\.com/i, pattern: /(?:verification code|launch code)[^\dA-Z]{0,20}(\d{6,8})/i },
+  { name: 'microsoft', sender: /microsoft|outlook|live\.com/i, pattern: /(?:security code|安全代码|code)[:：\s]*(\d{4,8})/i },
+  { name: 'google', sender: /google\.com/i, pattern: /\b(G-\d{6})\b|(?:verification code|验证码)[^\d]{0,20}(\d{6})/i },
+  { name: 'steam', sender: /steampowered\.com/i, pattern: /(?:guard code|访问代码|code)[^\dA-Z]{0,30}\b([A-Z0-9]{5})\b/ },
+  { name: 'apple', sender: /apple\.com/i, pattern: /(?:verification code|验证码)[^\d]{0,20}(\d{6})/i },
+  { name: 'tencent', sender: /qq\.com|tencent/i, pattern: /验证码[^\dA-Za-z]{0,10}([A-Za-z0-9]{4,8})/ },
+  { name: 'numeric-zh', pattern: /(?:验证码|校验码|动态码|确认码)[^\dA-Za-z]{0,10}(\d{4,8})(?!\d)/ },
+  { name: 'numeric-en', pattern: /(?:verification|security|one-time|login|confirmation|auth(?:entication)?)\s*(?:code|pin|otp)(?:\s+is)?[^\dA-Za-z]{0,20}(\d{4,8})(?!\d)/i },
+  { name: 'otp', pattern: /\b(?:(?:OTP|PIN)\s*(?:is|:|：)|code\s+is)\s*(\d{4,8})(?!\d)/i },
+  { name: 'alphanumeric', pattern: /(?:验证码|code)\s*(?:is|为|是|:|：)\s*((?=[A-Za-z0-9]*\d)(?=[A-Za-z0-9]*[A-Za-z])[A-Za-z0-9]{4,10})(?![A-Za-z0-9])/i },
+]
+
+// 邮件中的链接
+const linkPattern = /https?:\/\/[^\s"'<>]+/gi
+
+// 魔法登录链接：链接中包含 login / verify / magic 等关键词（按单词边界匹配，避免 authors 之类的误判）
+const magicLinkKeyword = /(?<![a-z])(?:log-?in|sign[-_]?in|verify|verification|magic|confirm(?:ation)?|auth(?:enticate)?)(?![a-z])/i
+
+// 退订、偏好设置和点击跟踪链接不是登录链接
+const excludedLinkPattern = /unsubscribe|opt[-_]?out|preferences|\/(?:track|click|open|pixel)(?![a-z])|^https?:\/\/(?:click|track|trk|links?|email)\./i
+
+// 登录或验证相关的措辞，链接附近或邮件主题中出现时才认为是登录链接
+const signInWording = /\b(?:sign[ -]?in|log[ -]?in|verify|verification|one-time|magic link|authenticate|(?:verification|security|login) code)\b|登录|登陆|验证|激活/i
+
+// 链接前后用于判断措辞的范围
+const LINK_CONTEXT = 200
+
+// 有效期描述，如 "10分钟内有效"、"expires in 15 minutes"
+const expiryPatterns = [
+  /(\d+\s*(?:分钟|小时|秒))\s*(?:内)?有效/,
+  /有效期(?:为|是)?[:：\s]*(\d+\s*(?:分钟|小时|秒))/,
+  /(?:expires?|expiring|valid)\s*(?:in|for|within)\s*(\d+\s*(?:minutes?|mins?|hours?|seconds?))/i,
+]
+
+// 从邮件中提取有效期描述
+function extractExpiry(text: string): string | undefined {
+  for (const pattern of expiryPatterns) {
+    const match = text.match(pattern)
+    if (match) return match[1].replace(/\s+/g, ' ')
+  }
+}
+
+// 查找登录链接：mentioned 为 true（主题与验证码或登录有关）时不要求链接附近出现相关措辞
+function findMagicLink(source: string, mentioned: boolean): string | undefined {
+  for (const match of source.matchAll(linkPattern)) {
+    const link = match[0].replace(/&amp;/g, '&')
+    if (excludedLinkPattern.test(link) || !magicLinkKeyword.test(link)) continue
+    if (mentioned) return link
+
+    // 去掉链接本身和 HTML 标签，只看附近的文字
+    const context = source.slice(Math.max(0, match.index - LINK_CONTEXT), match.index) + ' ' +
+      source.slice(match.index + match[0].length, match.index + match[0].length + LINK_CONTEXT)
+    if (signInWording.test(context.replace(/<[^>]*>/g, ' '))) return link
+  }
+}
+
+// 将配置中的规则转换为提取规则，无效的正则会被跳过
+export function compileCodeRules(rules: { sender: string; pattern: string }[]): CodeRule[] {
+  const compiled: CodeRule[] = []
+  rules.forEach((rule, index) => {
+    try {
+      compiled.push({
+        name: `custom-${index + 1}`,
+        sender: rule.sender ? new RegExp(rule.sender, 'i') : undefined,
+        pattern: new RegExp(rule.pattern, 'i'),
+      })
+    } catch (error) {
+      logger.warn(`验证码规则 #${index + 1} 无效，已跳过:`, error.message)
+    }
+  })
+  return compiled
+}
+
+// 创建验证码提取器，自定义规则优先于内置规则
+export function createCodeExtractor(rules: CodeRule[]): CodeExtractor {
+  const allRules = [...rules, ...builtinCodeRules]
+
+  return (mail) => {
+    const content = `${mail.subject}\n${mail.text}`
+
+    for (const rule of allRules) {
+      if (rule.sender && !rule.sender.test(mail.from)) continue
+
+      const match = content.match(rule.pattern)
+      const value = match?.slice(1).find(Boolean)
+      if (!value) continue
+
+      logger.debug(`🔑 规则 ${rule.name} 提取到验证码`)
+      const result: ExtractedCode = { rule: rule.name, expiry: extractExpiry(content), confident: true }
+      if (/^https?:\/\//i.test(value)) {
+        result.link = value
+      } else {
+        result.code = value
+      }
+      return result
+    }
+
+    // 没有验证码时尝试提取登录链接（HTML 中的链接优先）
+    const mentioned = signInWording.test(mail.subject)
+    const link = findMagicLink(mail.html, mentioned) || findMagicLink(content, mentioned)
+    if (link) {
+      logger.debug('🔗 提取到登录链接')
+      return { rule: 'magic-link', link, expiry: extractExpiry(content), confident: mentioned }
+    }
+
+    return null
+  }
+}
@@ -1,6 +1,26 @@
-import { Context, Schema, Logger } from 'koishi'
+import { Context, Fragment, h, Schema, Session, Logger } from 'koishi'
 import Imap from 'node-imap'
 import { simpleParser } from 'mailparser'
+import { AttachmentOptions, attachmentElement, filterAttachments, formatSize } from './attachment'
+import { applyBinding, extractRecipients, getAddressOwners } from './binding'
+import { DeliveryTarget, describeTarget, getTargetKey, parseChannelTarget, sendToTarget } from './delivery'
+import { applyDigest, DigestItem, DigestMode, DigestReason, queueDigest } from './digest'
+import { canAccess } from './access'
+import { applyArchive, archiveMail, findArchivedMail, hashSource } from './archive'
+import { applyAudit, getActor, recordAudit } from './audit'
+import { applyClaim, createClaimRegistry, describeClaim } from './claim'
+import { AuthMode, buildXOAuth2, getAccessToken, isAuthFailure, isOAuth2Configured, OAuth2Config } from './oauth'
+import { createRedactor, RedactPattern, RedactRule, Trace } from './redact'
+import { applyQueue, createDeliveryQueue, DeliveryMail, QueuedDelivery } from './queue'
+import { compileCodeRules, createCodeExtractor, ExtractedCode } from './extract'
+import { createRenderer, RenderMode } from './render'
+import { applyRules, evaluateRules, getActiveRules, RuleConfig, RuleMail } from './rules'
+import { extendMailState, findMailState, isSettled, MailStatus, saveMailState } from './state'
+import { canSend, createMailSender, MailSender, OutgoingMail, SmtpConfig } from './smtp'
+import { DEFAULT_CODE_TEMPLATE, DEFAULT_NOTIFY_TEMPLATE, formatDate, renderTemplate, truncate } from './template'
+import { createRateLimiter, isQuietTime, parseQuietHours, RateLimitConfig } from './throttle'
+import { paginate, parseDateInput } from './utils'
+import { applySubscription, getSubscribers } from './subscription'
 
 export const name = 'mailbot'
 export const inject = ['database']
@@ -9,67 +29,182 @@ export const usage = `
 这是一个邮箱监听插件，用于监听指定邮箱的新邮件并自动通知。
 
 ### 主要功能
-- 自动监听 IMAP 邮箱
-- 新邮件到达时自动发送机器人通知
+- 自动监听 IMAP 邮箱，支持同时监听多个账户和多个文件夹（如收件箱和垃圾邮件）
+- 优先使用 IMAP IDLE 实时推送，服务器不支持时自动改为定时轮询
+- 支持密码和 OAuth2（XOAUTH2）认证，访问令牌过期前和认证失败时自动刷新
+- 断线后按指数退避自动重连，长时间断线时向管理频道告警
+- 新邮件到达时向订阅了该账户的频道或用户发送通知（注明所属账户）
+- 自动提取验证码和登录链接，以简短格式单独发送，方便复制
+- 可将 HTML 邮件在沙箱化的无头浏览器中渲染为图片发送
+- 可按类型和大小限制随通知转发附件
+- 摘要模式：将大量普通邮件按时间窗口或定时合并为一条摘要发送
+- 免打扰时段和通知频率限制：暂缓的邮件不会丢失，之后合并为一条消息发送
+- 共享邮箱认领：用户等待下一封匹配的邮件，先到先得，邮件只私聊发送给认领者
+- 邮件存档：已处理的邮件保存在数据库中，可离线搜索，服务器上删除后仍可用 \`mailbot.show\` 查看
+- 敏感信息脱敏：通知、查看的邮件内容和日志中的密码、身份证号、手机号、重置链接等按规则隐藏
+- 通知投递队列：发送失败的通知保存在数据库中按退避策略重试，所有目标发送成功后才标记邮件为已读
 - 支持多种邮件列表获取方式
 
 ### 命令列表
-- \`mailbot.start\` - 开始监听新邮件
-- \`mailbot.stop\` - 停止监听新邮件  
-- \`mailbot.status\` - 查看监听状态
-- \`mailbot.list [type]\` - 获取邮件列表 (all/unread/recent)
-- \`mailbot.test\` - 测试邮箱连接
+以下命令的 \`[account]\` 为可选的账户名称，省略时作用于全部账户（\`mailbot.list\` 省略时使用第一个账户）。
+监听多个文件夹时，可用 \`账户/文件夹\`（如 \`work/Junk\`）只选择其中一个文件夹
+- \`mailbot.start [account]\` - 开始监听新邮件
+- \`mailbot.stop [account]\` - 停止监听新邮件
+- \`mailbot.status [account]\` - 查看监听状态和等待中的认领
+- \`mailbot.list [type] [account] [-f folder]\` - 获取邮件列表 (all/unread/recent)
+- \`mailbot.search [account] [--from|--to|--subject|--body 关键词] [--since|--before 日期] [-u] [-f folder] [-l limit] [-p page]\` - 按条件搜索邮件
+- \`mailbot.folders [account]\` - 查看邮箱中的文件夹及邮件数
+- \`mailbot.test [account]\` - 测试邮箱连接
+- \`mailbot.render <uid> [account]\` - 将指定邮件渲染为图片
+- \`mailbot.show <uid> [account] [--raw|--html|--headers] [-p page]\` - 查看指定邮件（别名 \`mailbot.read\`）
+- \`mailbot.attachments <uid> [index] [-a account]\` - 查看邮件附件，指定序号时下载该附件
+- \`mailbot.mark <uid> read|unread|flagged|unflagged [account]\` - 标记邮件
+- \`mailbot.move <uid> <folder> [account]\` - 移动邮件到指定文件夹
+- \`mailbot.delete <uid> [account]\` - 删除邮件（需要确认，服务器需要支持 UIDPLUS）
+- \`mailbot.send <to> <subject> [body] [-a account]\` - 发送邮件，省略正文时按提示发送（需要配置 SMTP）
+- \`mailbot.reply <uid> [body] [-a account]\` - 回复邮件
+- \`mailbot.subscribe [account] [-f filter] [-p] [-t template] [-q quietHours]\` - 将当前频道（或自己的私聊）订阅到账户
+- \`mailbot.unsubscribe [account] [-p]\` - 取消订阅
+- \`mailbot.bind <address> [-u user] [-a account]\` - 将收件地址（别名/转发地址，支持通配符）绑定到用户
+- \`mailbot.unbind <address>\` - 解除收件地址绑定
+- \`mailbot.bindings [user]\` - 查看收件地址绑定
+- \`mailbot.rule.add/list/remove/enable/disable\` - 管理过滤和路由规则
+- \`mailbot.rule.test <uid> [account]\` - 用已有邮件试运行规则
+- \`mailbot.digest [now]\` - 查看待发送的邮件摘要，\`now\` 立即发送
+- \`mailbot.queue [pending|dead]\` - 查看等待重试和已放弃的通知
+- \`mailbot.retry <id>\` - 立即重新发送投递队列中的通知
+- \`mailbot.wait [account] [--from 发件人] [-t 5m] [-c]\` - 认领共享邮箱的下一封匹配邮件，只私聊发送给自己
+- \`mailbot.history [account] [--from 发件人] [-k 关键词] [-d 天数] [-l limit] [-p page]\` - 在本地存档中搜索已处理的邮件，不需要连接邮箱
+- \`mailbot.audit [uid|@用户] [-a account] [-l limit]\` - 查询谁在何时查看、认领或操作了哪些邮件
+
+查看和操作邮件的命令可用 \`-f 文件夹\` 指定邮件所在文件夹，默认为所选账户监听的第一个文件夹。
+也可以直接回复通知消息「已读」「未读」「星标」「删除」「移动 文件夹」「查看」来操作对应邮件
+
+### 权限和审计
+- 命令按用途分为查看（viewAuthority）、管理监听/订阅/绑定/规则/摘要/投递队列（manageAuthority）、认领（claimAuthority）、操作邮箱和发信（actionAuthority）、审计（auditAuthority）几类，分别配置所需的权限等级
+- 账户配置了 allowedUsers / allowedChannels 白名单时，只有白名单中的用户或在白名单群组中才能查看、认领和操作该账户的邮件，订阅、绑定和规则指定的通知也只会发送到白名单中的目标
+- 查看、认领、操作邮件和发信都会记录到审计日志（mailbot_audit 表）
+
+### 规则动作
+规则的匹配条件（发件人、收件人、主题、正文）支持正则表达式或通配符，命中后执行以下动作：
+- \`notify:平台:频道ID\` / \`notify:private:平台:用户ID\` - 只通知指定目标
+- \`drop\` - 不发送通知
+- \`read\` - 标记为已读
+- \`urgent\` - 紧急邮件，不受摘要模式、免打扰时段和频率限制影响，立即通知
+- \`move:文件夹\` - 移动到指定文件夹
+- \`code:正则\` - 用指定正则提取验证码（第一个捕获组）
+- \`template:模板\` - 使用自定义通知模板
+
+### 通知模板
+通知模板（配置项、规则的 \`template:\` 动作、订阅的 \`-t\` 选项）支持以下占位符：
+{account} {folder} {from} {fromName} {fromAddress} {to} {subject} {date} {body} {code} {expiry} {uid}
+- 优先级：订阅的模板 > 规则的模板 > 配置的模板
+- \`\\n\` 表示换行；含有占位符且占位符全部为空的行会被省略（如收件箱邮件的 {folder}、没有有效期的 {expiry}）
+- {body} 超过 bodyMaxLength 时截断，{date} 按配置的语言和时区显示
 
 ### 工作方式
 插件启动后会自动开始监听邮箱，当收到新邮件时：
 1. 记录详细信息到日志
-2. 向所有活跃聊天发送通知消息
+2. 若收件地址（To / Delivered-To / X-Original-To）已绑定用户，仅私聊发送给该用户
+3. 否则发送给匹配的订阅者（频道或私聊）和配置的管理频道
 `
 
 // 创建日志器
 const logger = new Logger('mailbot')
 
-// 使用mailparser解析邮件内容
-async function parseEmailContent(rawEmail: string): Promise<{ text: string; html: string; subject: string }> {
+// 邮件附件
+export interface EmailAttachment {
+  filename: string
+  contentType: string
+  size: number
+  content: Buffer
+  contentId: string
+  inline: boolean
+}
+
+// 邮件解析结果（已按各部分的 charset 和传输编码解码）
+export interface ParsedEmail {
+  text: string
+  html: string
+  subject: string
+  from: {
+    name: string
+    address: string
+  }
+  date: Date | null
+  attachments: EmailAttachment[]
+  htmlOnly: boolean // 只有 HTML 正文，纯文本由 HTML 转换而来
+}
+
+// 使用mailparser解析完整的 RFC822 邮件源码
+async function parseEmailContent(source: Buffer, trace?: Trace): Promise<ParsedEmail> {
   try {
     logger.info('🔍 开始使用mailparser解析邮件...')
 
-    // 使用simpleParser解析邮件
-    const parsed = await simpleParser(rawEmail)
+    // 使用simpleParser解析邮件，multipart、base64、quoted-printable 和 GBK 等字符集由 mailparser 处理
+    const parsed = await simpleParser(source)
 
     logger.info('📧 mailparser解析结果:')
-    logger.info('📋 Subject:', parsed.subject || '无主题')
+    trace?.('📋 Subject:', parsed.subject || '无主题')
     logger.info('📝 Text Length:', parsed.text ? parsed.text.length : 0)
     logger.info('🌐 HTML Length:', parsed.html ? parsed.html.toString().length : 0)
+    logger.info('📎 Attachments:', parsed.attachments.length)
 
     // 提取文本内容
     const textContent = parsed.text || ''
     const htmlContent = parsed.html ? parsed.html.toString() : ''
+    const sender = parsed.from?.value[0]
+    const hasTextPart = /^content-type:\s*text\/plain/im.test(source.toString('latin1'))
 
     logger.info('✅ 邮件解析完成')
-    logger.info('📄 提取的纯文本内容:', textContent)
+    trace?.('📄 提取的纯文本内容:', textContent)
 
     return {
       text: textContent.trim(),
       html: htmlContent.trim(),
-      subject: parsed.subject || '无主题'
+      subject: parsed.subject || '无主题',
+      from: {
+        name: sender?.name || '',
+        address: sender?.address || ''
+      },
+      date: parsed.date || null,
+      attachments: parsed.attachments.map(attachment => ({
+        filename: attachment.filename || '未命名附件',
+        contentType: attachment.contentType,
+        size: attachment.size,
+        content: attachment.content,
+        contentId: attachment.cid || '',
+        inline: attachment.contentDisposition === 'inline' || attachment.related
+      })),
+      htmlOnly: !!htmlContent && !hasTextPart
     }
   } catch (error) {
     logger.error('❌ mailparser解析失败:', error)
     return {
       text: '',
       html: '',
-      subject: '解析失败'
+      subject: '解析失败',
+      from: { name: '', address: '' },
+      date: null,
+      attachments: [],
+      htmlOnly: false
     }
   }
 }
 
+// 格式化发件人，优先使用解析出的名称和地址
+function formatSender(parsed: ParsedEmail, fallback: string): string {
+  const { name, address } = parsed.from
+  if (!address) return fallback
+  return name ? `${name} <${address}>` : address
+}
+
 // 清理邮件正文，提取核心内容
-function cleanEmailContent(rawText: string): string {
+function cleanEmailContent(rawText: string, trace?: Trace): string {
   if (!rawText) return ''
 
   logger.debug('🧹 开始清理邮件正文...')
-  logger.debug('📝 原始文本:', rawText)
+  trace?.('📝 原始文本:', rawText)
 
   // 按行分割文本
   const lines = rawText.split('\n').map(line => line.trim())
@@ -87,7 +222,7 @@ function cleanEmailContent(rawText: string): string {
     const hasImportantInfo = /\b(code|验证码|密码|password|auth|token|key)\b/i.test(line)
 
     if (hasImportantInfo) {
-      logger.debug(`🔒 检测到重要信息，保护此行: "${line}"`)
+      trace?.('🔒 检测到重要信息，保护此行:', line)
       coreContent.push(line)
       continue
     }
@@ -99,7 +234,7 @@ function cleanEmailContent(rawText: string): string {
       line.match(/^[|]\s*[|]\s*$/) ||      // | | 模式
       line.match(/^\s*[|]\s*$/)            // 单独的 | 字符
     ) {
-      logger.debug(`🚫 检测到签名分隔符，停止提取: "${line}"`)
+      trace?.('🚫 检测到签名分隔符，停止提取:', line)
       break
     }
 
@@ -115,13 +250,13 @@ function cleanEmailContent(rawText: string): string {
     )
 
     if (isEmailSignature) {
-      logger.debug(`🚫 检测到邮箱签名，停止提取: "${line}"`)
+      trace?.('🚫 检测到邮箱签名，停止提取:', line)
       break
     }
 
     // 如果是有意义的内容行，添加到核心内容
     if (line.length > 0) {
-      logger.debug(`✅ 添加内容行: "${line}"`)
+      trace?.('✅ 添加内容行:', line)
       coreContent.push(line)
     }
   }
@@ -129,66 +264,247 @@ function cleanEmailContent(rawText: string): string {
   const cleanedText = coreContent.join('\n').trim()
 
   logger.debug('✅ 邮件正文清理完成')
-  logger.debug(`🎯 清理后内容: "${cleanedText}"`)
+  trace?.('🎯 清理后内容:', cleanedText)
 
   return cleanedText
 }
 
-export interface Config {
-  imap: {
-    host: string
-    port: number
-    user: string
-    password: string
-    tls: boolean
-    tlsOptions?: {
-      rejectUnauthorized: boolean
-    }
+// 单个 IMAP 邮箱账户配置
+export interface ImapAccount {
+  name: string
+  host: string
+  port: number
+  user: string
+  password: string
+  auth: AuthMode
+  oauth?: OAuth2Config
+  tls: boolean
+  tlsOptions?: {
+    rejectUnauthorized: boolean
   }
+  folders: string[]
+  allowedUsers: string[]
+  allowedChannels: string[]
+  smtp?: SmtpConfig
+}
+
+// 新邮件检测方式：IMAP IDLE 推送、定时轮询，或两者同时使用
+export type MonitorMode = 'idle' | 'poll' | 'hybrid'
+
+export interface Config {
+  imap: ImapAccount[]
   fetchLimit: number
+  adminChannels: string[]
+  showContent: boolean
+  bodyMaxLength: number
+  notifyTemplate: string
+  codeTemplate: string
+  locale: string
+  timezone: string
+  codeRules: {
+    sender: string
+    pattern: string
+  }[]
+  codeSeparate: boolean
+  rules: RuleConfig[]
+  monitorMode: MonitorMode
+  pollInterval: number
+  reconnectDelay: number
+  reconnectMaxDelay: number
+  reconnectMaxRetries: number
+  alertThreshold: number
+  renderMode: RenderMode
+  renderWidth: number
+  forwardAttachments: boolean
+  attachmentTypes: string[]
+  attachmentMaxSize: number
+  forwardInlineImages: boolean
+  digestMode: DigestMode
+  digestWindow: number
+  digestSchedule: string
+  markReadPolicy: 'all' | 'any' | 'always' | 'never'
+  retryDelay: number
+  retryMaxAttempts: number
+  quietHours: string
+  targetRateLimit: RateLimitConfig
+  accountRateLimit: RateLimitConfig
+  viewAuthority: number
+  manageAuthority: number
+  claimAuthority: number
+  actionAuthority: number
+  auditAuthority: number
+  archive: boolean
+  archiveRetentionDays: number
+  archiveMaxMails: number
+  redactChat: boolean
+  redactLogs: boolean
+  redactRules: RedactRule[]
+  redactPatterns: RedactPattern[]
+  verbose: boolean
 }
 
 export const Config: Schema<Config> = Schema.object({
-  imap: Schema.object({
+  imap: Schema.array(Schema.object({
+    name: Schema.string().description('账户名称（用于命令参数和通知中区分邮箱）').required(),
     host: Schema.string().description('IMAP 服务器地址').default(''),
     port: Schema.number().description('IMAP 服务器端口').default(993),
     user: Schema.string().description('邮箱用户名').default(''),
-    password: Schema.string().role('secret').description('邮箱密码').default(''),
+    password: Schema.string().role('secret').description('邮箱密码（认证方式为 xoauth2 时不需要）').default(''),
+    auth: Schema.union([
+      Schema.const('password').description('密码'),
+      Schema.const('xoauth2').description('OAuth2（XOAUTH2，适用于 Exchange Online、Gmail 等已关闭密码登录的邮箱）'),
+    ]).description('IMAP 认证方式').default('password'),
+    oauth: OAuth2Config,
     tls: Schema.boolean().description('是否使用 TLS 加密').default(true),
     tlsOptions: Schema.object({
       rejectUnauthorized: Schema.boolean().description('是否验证服务器证书').default(false)
-    }).description('TLS 选项').default({ rejectUnauthorized: false })
-  }).description('IMAP 服务器配置'),
-  fetchLimit: Schema.number().description('每次获取邮件数量限制').default(10).min(1).max(50)
+    }).description('TLS 选项').default({ rejectUnauthorized: false }),
+    folders: Schema.array(Schema.string()).description('监听的文件夹（如 INBOX、Junk），每个文件夹使用单独的连接').default(['INBOX']),
+    allowedUsers: Schema.array(Schema.string()).description('允许查看该账户邮件的用户（格式: 平台:用户ID，与频道白名单都为空时不限制）').default([]),
+    allowedChannels: Schema.array(Schema.string()).description('允许查看该账户邮件的群组频道（格式: 平台:频道ID），也用于过滤订阅').default([]),
+    smtp: SmtpConfig
+  })).description('IMAP 邮箱账户列表').default([]),
+  fetchLimit: Schema.number().description('每次获取邮件数量限制').default(10).min(1).max(50),
+  adminChannels: Schema.array(Schema.string()).description('管理频道，接收收件地址未绑定用户的邮件（账户配置了白名单时同样需要在白名单中）和账户故障告警（格式: 平台:频道ID）').default([]),
+  showContent: Schema.boolean().description('普通邮件通知中是否附带正文内容').default(true),
+  bodyMaxLength: Schema.natural().description('通知中正文的最大字符数，超出部分截断（0 为不限制）').default(500),
+  notifyTemplate: Schema.string().role('textarea').description('普通邮件通知模板，可用占位符见使用说明').default(DEFAULT_NOTIFY_TEMPLATE),
+  codeTemplate: Schema.string().role('textarea').description('验证码通知模板').default(DEFAULT_CODE_TEMPLATE),
+  locale: Schema.string().description('通知中日期的显示语言').default('zh-CN'),
+  timezone: Schema.string().description('通知中日期的时区，如 Asia/Shanghai（留空使用系统时区）').default(''),
+  codeRules: Schema.array(Schema.object({
+    sender: Schema.string().description('发件人匹配正则（留空匹配所有发件人）').default(''),
+    pattern: Schema.string().description('验证码匹配正则，第一个捕获组为验证码或登录链接').required()
+  })).role('table').description('自定义验证码提取规则（优先于内置规则）').default([]),
+  codeSeparate: Schema.boolean().description('提取到验证码时单独发送一条只包含验证码的消息，方便复制').default(true),
+  rules: Schema.array(RuleConfig).description('邮件过滤和路由规则（按顺序匹配，命中规则的动作会合并）').default([]),
+  monitorMode: Schema.union([
+    Schema.const('idle').description('IDLE 推送（服务器不支持时自动改为轮询）'),
+    Schema.const('poll').description('定时轮询'),
+    Schema.const('hybrid').description('IDLE 推送 + 定时轮询兜底'),
+  ]).description('新邮件检测方式').default('hybrid'),
+  pollInterval: Schema.number().description('轮询间隔（秒）').default(30).min(5),
+  reconnectDelay: Schema.number().description('断线后首次重连延迟（秒），之后每次失败翻倍').default(5).min(1),
+  reconnectMaxDelay: Schema.number().description('重连延迟上限（秒）').default(300).min(1),
+  reconnectMaxRetries: Schema.number().description('连续重连失败多少次后放弃（0 为不限）').default(0).min(0),
+  alertThreshold: Schema.number().description('账户断线超过多少分钟后向管理频道告警（0 为不告警）').default(10).min(0),
+  renderMode: Schema.union([
+    Schema.const('always').description('总是渲染'),
+    Schema.const('html-only').description('只渲染没有纯文本正文的 HTML 邮件'),
+    Schema.const('never').description('从不渲染'),
+  ]).description('何时将 HTML 邮件渲染为图片发送').default('html-only'),
+  renderWidth: Schema.number().description('渲染图片的视口宽度（像素）').default(800).min(320).max(1920),
+  forwardAttachments: Schema.boolean().description('是否随通知转发邮件附件').default(false),
+  attachmentTypes: Schema.array(Schema.string()).description('允许转发的附件 MIME 类型（支持通配符，如 image/*）').default(['image/*', 'application/pdf']),
+  attachmentMaxSize: Schema.number().description('允许转发的单个附件大小上限（MB）').default(5).min(0),
+  forwardInlineImages: Schema.boolean().description('是否转发 HTML 正文中内嵌的图片').default(false),
+  digestMode: Schema.union([
+    Schema.const('off').description('关闭，每封邮件单独通知'),
+    Schema.const('window').description('按时间窗口合并'),
+    Schema.const('schedule').description('按 cron 定时发送'),
+  ]).description('摘要模式：将普通邮件合并为一条摘要发送（验证码和紧急规则命中的邮件不受影响）').default('off'),
+  digestWindow: Schema.number().description('时间窗口（分钟），目标最早的待发送邮件等待超过该时间后发送摘要').default(30).min(1),
+  digestSchedule: Schema.string().description('定时发送摘要的 cron 表达式（分 时 日 月 周），按时区配置计算').default('0 9,18 * * *'),
+  markReadPolicy: Schema.union([
+    Schema.const('all').description('所有目标都发送成功后'),
+    Schema.const('any').description('至少一个目标发送成功后'),
+    Schema.const('always').description('处理完毕后总是标记'),
+    Schema.const('never').description('从不标记'),
+  ]).description('何时将已通知的邮件标记为已读（暂缓发送的目标视为成功）').default('all'),
+  retryDelay: Schema.number().description('通知发送失败后首次重试的延迟（秒），之后每次失败翻倍，最长 1 小时').default(30).min(5),
+  retryMaxAttempts: Schema.number().description('通知最多尝试发送的次数，超过后放弃并保留在队列中').default(8).min(1),
+  quietHours: Schema.string().description('默认免打扰时段，如 23:00-07:00，期间的邮件在时段结束后合并发送（留空为不启用，订阅可单独设置）').default(''),
+  targetRateLimit: RateLimitConfig.description('每个频道或用户的通知频率限制，超出的邮件合并为摘要发送'),
+  accountRateLimit: RateLimitConfig.description('每个邮箱账户的通知频率限制'),
+  viewAuthority: Schema.natural().description('查看邮件列表、搜索和邮件内容所需的权限等级').default(2),
+  manageAuthority: Schema.natural().description('启动、停止监听、测试连接，以及管理订阅、绑定、规则、摘要和投递队列所需的权限等级').default(3),
+  claimAuthority: Schema.natural().description('认领邮件（mailbot.wait）所需的权限等级').default(1),
+  actionAuthority: Schema.natural().description('在聊天中操作邮箱（标记、移动、删除）所需的权限等级').default(3),
+  auditAuthority: Schema.natural().description('查询审计日志所需的权限等级').default(4),
+  archive: Schema.boolean().description('是否在数据库中存档已处理的邮件（邮件头、清理后的正文和验证码），用于 mailbot.history 和查看已删除的邮件').default(true),
+  archiveRetentionDays: Schema.natural().description('存档保留天数（0 为永久保留）').default(90),
+  archiveMaxMails: Schema.natural().description('每个账户最多保留的存档数（0 为不限制）').default(5000),
+  redactChat: Schema.boolean().description('发送到聊天的通知和邮件内容是否脱敏（提取出的验证码和登录链接除外）').default(true),
+  redactLogs: Schema.boolean().description('日志中的邮件内容是否脱敏').default(true),
+  redactRules: Schema.array(Schema.union([
+    Schema.const('password').description('密码、令牌'),
+    Schema.const('idNumber').description('身份证号'),
+    Schema.const('phone').description('手机号'),
+    Schema.const('resetLink').description('重置密码、验证、登录链接'),
+  ])).role('checkbox').description('启用的内置脱敏规则').default(['password', 'idNumber', 'phone', 'resetLink']),
+  redactPatterns: Schema.array(RedactPattern).role('table').description('自定义脱敏规则').default([]),
+  verbose: Schema.boolean().description('在日志中输出邮件原始内容和完整邮件对象（用于调试，同样按 redactLogs 脱敏）').default(false)
 })
 
-// IMAP 连接函数
-function connectToImap(config: Config['imap']): Promise<Imap> {
+// 查看邮件时每页的最大字符数
+const SHOW_PAGE_SIZE = 1500
+
+// 支持合并转发消息的平台
+const FORWARD_PLATFORMS = ['onebot', 'red', 'chronocat']
+
+// 监听时获取的邮件头部字段
+const MAIL_HEADER_FIELDS = 'HEADER.FIELDS (FROM TO SUBJECT DATE MESSAGE-ID DELIVERED-TO X-ORIGINAL-TO REPLY-TO REFERENCES)'
+
+// 解析邮件头部
+function parseMailHeaders(buffer: string) {
+  const parsed = Imap.parseHeader(buffer)
+  return {
+    from: parsed.from?.[0] || '未知发件人',
+    to: parsed.to?.[0] || '未知收件人',
+    subject: parsed.subject?.[0] || '无主题',
+    date: parsed.date?.[0] || '未知日期',
+    messageId: parsed['message-id']?.[0] || '',
+    deliveredTo: parsed['delivered-to'] || [],
+    originalTo: parsed['x-original-to'] || [],
+    replyTo: parsed['reply-to']?.[0] || '',
+    references: (parsed.references?.[0] || '').split(/\s+/).filter(Boolean)
+  }
+}
+
+// 获取 IMAP 认证参数，XOAUTH2 账户使用访问令牌（force 为 true 时强制刷新）
+async function getImapAuth(account: ImapAccount, force = false): Promise<Pick<Imap.Config, 'user' | 'password' | 'xoauth2'>> {
+  if (account.auth !== 'xoauth2') {
+    return { user: account.user, password: account.password }
+  }
+  return { user: account.user, password: '', xoauth2: buildXOAuth2(account.user, await getAccessToken(account, force)) }
+}
+
+// IMAP 连接函数，XOAUTH2 认证失败时刷新访问令牌后重试一次
+async function connectToImap(account: ImapAccount): Promise<Imap> {
+  try {
+    return await openImapConnection(account, await getImapAuth(account))
+  } catch (error) {
+    if (account.auth !== 'xoauth2' || !isAuthFailure(error)) throw error
+    logger.warn(`[${account.name}] XOAUTH2 认证失败，刷新访问令牌后重试`)
+    return openImapConnection(account, await getImapAuth(account, true))
+  }
+}
+
+function openImapConnection(account: ImapAccount, auth: Pick<Imap.Config, 'user' | 'password' | 'xoauth2'>): Promise<Imap> {
   return new Promise((resolve, reject) => {
     const imap = new Imap({
-      host: config.host,
-      port: config.port,
-      tls: config.tls,
-      tlsOptions: config.tlsOptions,
-      user: config.user,
-      password: config.password,
+      host: account.host,
+      port: account.port,
+      tls: account.tls,
+      tlsOptions: account.tlsOptions,
+      ...auth,
       connTimeout: 60000, // 60秒连接超时
       authTimeout: 30000, // 30秒认证超时
       keepalive: false
     })
 
     imap.once('ready', () => {
-      logger.info('IMAP 连接已建立')
+      logger.info(`[${account.name}] IMAP 连接已建立`)
       resolve(imap)
     })
 
     imap.once('error', (err) => {
-      logger.error('IMAP 连接失败:', err.message)
+      logger.error(`[${account.name}] IMAP 连接失败:`, err.message)
       reject(err)
     })
 
     imap.once('end', () => {
-      logger.info('IMAP 连接已断开')
+      logger.info(`[${account.name}] IMAP 连接已断开`)
     })
 
     try {
@@ -199,103 +515,183 @@ function connectToImap(config: Config['imap']): Promise<Imap> {
   })
 }
 
-// 邮件监听器状态变量
-let imap: Imap | null = null
-let isMonitoring = false
-let reconnectTimer: NodeJS.Timeout | null = null
-let pollTimer: NodeJS.Timeout | null = null
-let lastMailCount = 0
-let imapConfig: Config['imap'] | null = null
-let mailboxName: string = 'INBOX'
-let onNewMailCallback: ((messages: any[]) => Promise<void>) | null = null
-let lastCheckedUids: Set<number> = new Set() // 记录已处理的邮件UID
+// 单个账户的邮件监听器状态
+interface MailMonitor {
+  name: string // 显示名称：INBOX 为账户名，其他文件夹为 账户/文件夹
+  account: ImapAccount
+  imap: Imap | null
+  isMonitoring: boolean
+  reconnectTimer: NodeJS.Timeout | null
+  pollTimer: NodeJS.Timeout | null
+  lastMailCount: number
+  mailboxName: string
+  onNewMail: (monitor: MailMonitor, messages: any[]) => Promise<void>
+  trace?: Trace // 开启 verbose 时输出邮件原始内容
+  lastCheckedUids: Set<number> // 记录本次连接期间已处理的邮件UID（持久化记录见 mailbot_state 表）
+  pendingFetches: Set<() => void> // 尚未获取完成的邮件的撤销函数，断线时调用
+  uidValidity: number
+  lastUid: number // 已检查过的最大 UID，之后只增量获取更大的 UID
+  mode: MonitorMode // 配置的检测方式
+  activeMode: MonitorMode // 根据服务器能力实际使用的检测方式
+  pollInterval: number // 毫秒
+  reconnectDelay: number // 毫秒
+  reconnectMaxDelay: number // 毫秒
+  reconnectMaxRetries: number
+  // 连接健康状态
+  failures: number // 连续失败次数
+  lastConnectedAt: Date | null
+  lastError: string
+  downSince: Date | null // 本次断线开始时间，连接正常时为空
+  nextRetryAt: Date | null
+  gaveUp: boolean // 超过重连次数上限后放弃
+  alerted: boolean // 是否已发送断线告警
+}
+
+// 监听器参数（时间单位为秒）
+interface MonitorOptions {
+  mode: MonitorMode
+  pollInterval: number
+  reconnectDelay: number
+  reconnectMaxDelay: number
+  reconnectMaxRetries: number
+  trace?: Trace
+}
+
+// 创建邮件监听器，每个监听器监听账户的一个文件夹
+function createMailMonitor(account: ImapAccount, mailboxName: string, options: MonitorOptions, onNewMail: MailMonitor['onNewMail']): MailMonitor {
+  return {
+    name: mailboxName === 'INBOX' ? account.name : `${account.name}/${mailboxName}`,
+    account,
+    mode: options.mode,
+    activeMode: options.mode,
+    pollInterval: options.pollInterval * 1000,
+    reconnectDelay: options.reconnectDelay * 1000,
+    reconnectMaxDelay: options.reconnectMaxDelay * 1000,
+    reconnectMaxRetries: options.reconnectMaxRetries,
+    failures: 0,
+    lastConnectedAt: null,
+    lastError: '',
+    downSince: null,
+    nextRetryAt: null,
+    gaveUp: false,
+    alerted: false,
+    imap: null,
+    isMonitoring: false,
+    reconnectTimer: null,
+    pollTimer: null,
+    lastMailCount: 0,
+    mailboxName,
+    onNewMail,
+    trace: options.trace,
+    lastCheckedUids: new Set(),
+    pendingFetches: new Set(),
+    uidValidity: 0,
+    lastUid: 0
+  }
+}
 
 // 启动邮件监听
-async function startMailMonitor(config: Config['imap'], onNewMail: (messages: any[]) => Promise<void>): Promise<void> {
-  if (isMonitoring) {
-    logger.warn('邮件监听已在运行中')
+async function startMailMonitor(monitor: MailMonitor): Promise<void> {
+  if (monitor.isMonitoring) {
+    logger.warn(`[${monitor.name}] 邮件监听已在运行中`)
     return
   }
 
   try {
-    logger.info('开始邮件监听...')
-    imapConfig = config
-    onNewMailCallback = onNewMail
-    isMonitoring = true
-    await connectToMailMonitor()
+    logger.info(`[${monitor.name}] 开始邮件监听...`)
+    monitor.isMonitoring = true
+    monitor.gaveUp = false
+    await connectToMailMonitor(monitor)
   } catch (error) {
-    logger.error('启动邮件监听失败:', error)
-    isMonitoring = false
+    logger.error(`[${monitor.name}] 启动邮件监听失败:`, error)
+    // 首次启动失败同样进入自动重连并记录断线时间，以便持续失败时通知管理员
+    // 获取令牌或打开邮箱失败时不会触发连接的 error 事件，需要在这里安排重连
+    handleDisconnect(monitor, error)
+    monitor.lastError = error.message
     throw error
   }
 }
 
 // 停止邮件监听
-function stopMailMonitor(): void {
-  logger.info('停止邮件监听...')
-  isMonitoring = false
+function stopMailMonitor(monitor: MailMonitor): void {
+  logger.info(`[${monitor.name}] 停止邮件监听...`)
+  monitor.isMonitoring = false
 
-  if (reconnectTimer) {
-    clearTimeout(reconnectTimer)
-    reconnectTimer = null
+  if (monitor.reconnectTimer) {
+    clearTimeout(monitor.reconnectTimer)
+    monitor.reconnectTimer = null
   }
+  monitor.nextRetryAt = null
+  monitor.downSince = null
+  monitor.failures = 0
 
-  if (pollTimer) {
-    clearTimeout(pollTimer)
-    pollTimer = null
+  if (monitor.pollTimer) {
+    clearTimeout(monitor.pollTimer)
+    monitor.pollTimer = null
   }
 
-  if (imap) {
-    imap.removeAllListeners()
+  if (monitor.imap) {
+    monitor.imap.removeAllListeners()
     try {
-      imap.end()
+      monitor.imap.end()
     } catch (err) {
-      logger.error('关闭IMAP连接失败:', err)
+      logger.error(`[${monitor.name}] 关闭IMAP连接失败:`, err)
     }
-    imap = null
+    monitor.imap = null
   }
 
-  // 清除已处理邮件记录
-  lastCheckedUids.clear()
+  // 清除已处理邮件记录，下次启动时重新检查所有未读邮件
+  monitor.lastCheckedUids.clear()
+  monitor.pendingFetches.clear()
+  monitor.lastUid = 0
 }
 
 // 连接到IMAP服务器进行监听
-async function connectToMailMonitor(): Promise<void> {
-  return new Promise((resolve, reject) => {
-    if (!imapConfig) {
-      return reject(new Error('IMAP配置不存在'))
-    }
+async function connectToMailMonitor(monitor: MailMonitor): Promise<void> {
+  const { account } = monitor
+  const auth = await getImapAuth(account)
 
-    imap = new Imap({
-      host: imapConfig.host,
-      port: imapConfig.port,
-      tls: imapConfig.tls,
-      tlsOptions: imapConfig.tlsOptions,
-      user: imapConfig.user,
-      password: imapConfig.password,
+  return new Promise((resolve, reject) => {
+    const imap = monitor.imap = new Imap({
+      host: account.host,
+      port: account.port,
+      tls: account.tls,
+      tlsOptions: account.tlsOptions,
+      ...auth,
       connTimeout: 60000,
       authTimeout: 30000,
       keepalive: {
         interval: 10000,
         idleInterval: 300000,
-        forceNoop: true
+        forceNoop: monitor.mode === 'poll' // 非轮询模式下空闲时进入 IDLE
       }
     })
 
     imap.once('ready', () => {
-      logger.info('邮件监听连接已建立')
-      openBoxAndListen(resolve, reject)
+      logger.info(`[${monitor.name}] 邮件监听连接已建立`)
+
+      // 根据 CAPABILITY 判断服务器是否支持 IDLE，不支持时改为轮询
+      monitor.activeMode = monitor.mode
+      if (monitor.mode !== 'poll' && !imap.serverSupports('IDLE')) {
+        logger.warn(`[${monitor.name}] 服务器不支持 IDLE，改为每 ${monitor.pollInterval / 1000} 秒轮询`)
+        monitor.activeMode = 'poll'
+      }
+      openBoxAndListen(monitor, resolve, reject)
     })
 
     imap.once('error', (err) => {
-      logger.error('IMAP监听连接失败:', err.message)
-      handleDisconnect()
+      logger.error(`[${monitor.name}] IMAP监听连接失败:`, err.message)
+      // 访问令牌被拒绝时，下次重连前强制刷新
+      if (account.auth === 'xoauth2' && isAuthFailure(err)) {
+        getAccessToken(account, true).catch(error => logger.error(`[${monitor.name}] 刷新访问令牌失败:`, error.message))
+      }
+      handleDisconnect(monitor, err)
       reject(err)
     })
 
     imap.once('end', () => {
-      logger.info('IMAP监听连接已断开')
-      handleDisconnect()
+      logger.info(`[${monitor.name}] IMAP监听连接已断开`)
+      handleDisconnect(monitor)
     })
 
     imap.connect()
@@ -303,73 +699,104 @@ async function connectToMailMonitor(): Promise<void> {
 }
 
 // 打开邮箱并开始监听
-function openBoxAndListen(resolve: Function, reject: Function): void {
+function openBoxAndListen(monitor: MailMonitor, resolve: Function, reject: Function): void {
+  const { imap, mailboxName } = monitor
   if (!imap) return reject(new Error('IMAP连接不存在'))
 
   imap.openBox(mailboxName, false, (err, box) => {
     if (err) {
-      logger.error(`打开邮箱 ${mailboxName} 失败:`, err.message)
+      logger.error(`[${monitor.name}] 打开邮箱 ${mailboxName} 失败:`, err.message)
       return reject(err)
     }
 
-    logger.info(`邮件监听已开启，邮箱: ${mailboxName}, 总邮件数: ${box.messages.total}`)
-    lastMailCount = box.messages.total
+    logger.info(`[${monitor.name}] 邮件监听已开启，邮箱: ${mailboxName}, 总邮件数: ${box.messages.total}`)
+    monitor.lastMailCount = box.messages.total
 
-    // 首次获取未读邮件
-    fetchLatestUnread()
+    // 连接成功，重置健康状态
+    monitor.failures = 0
+    monitor.lastConnectedAt = new Date()
+    monitor.downSince = null
+    monitor.nextRetryAt = null
 
-    // 监听新邮件事件（作为快速响应机制）
-    imap!.on('mail', (numNewMsgs) => {
-      logger.info(`📧 IMAP事件: 检测到 ${numNewMsgs} 封新邮件`)
-      fetchLatestUnread()
-    })
+    // UIDVALIDITY 变化意味着服务器重新分配了 UID，内存中的记录不再有效
+    if (monitor.uidValidity && monitor.uidValidity !== box.uidvalidity) {
+      logger.warn(`[${monitor.name}] 邮箱 UIDVALIDITY 已变化 (${monitor.uidValidity} -> ${box.uidvalidity})，清除已处理记录`)
+      monitor.lastCheckedUids.clear()
+      monitor.lastUid = 0
+    }
+    monitor.uidValidity = box.uidvalidity
+
+    // 首次启动时获取所有未读邮件，重连时增量获取断线期间的新邮件
+    fetchNewMail(monitor)
+    if (!monitor.lastUid && box.uidnext) {
+      monitor.lastUid = box.uidnext - 1
+    }
+
+    // IDLE 推送的新邮件事件
+    if (monitor.activeMode !== 'poll') {
+      imap.on('mail', (numNewMsgs) => {
+        logger.info(`[${monitor.name}] 📧 IMAP事件: 检测到 ${numNewMsgs} 封新邮件`)
+        fetchNewMail(monitor)
+      })
+    }
+
+    // 轮询模式或混合模式下启动定时轮询
+    if (monitor.activeMode !== 'idle') {
+      startPolling(monitor)
+    }
 
-    // 启动定时轮询（作为主要检测机制）
-    startPolling()
+    logger.info(`[${monitor.name}] 新邮件检测方式: ${monitor.activeMode}`)
 
     resolve(undefined)
   })
 }
 
 // 定时轮询检查新邮件
-function startPolling(): void {
-  if (!isMonitoring) return
-
-  pollTimer = setTimeout(() => {
-    if (isMonitoring) {
-      logger.debug('🔄 定时轮询检查新邮件...')
-      fetchLatestUnread()
-      startPolling() // 继续下一次轮询
+function startPolling(monitor: MailMonitor): void {
+  if (!monitor.isMonitoring) return
+
+  monitor.pollTimer = setTimeout(() => {
+    if (monitor.isMonitoring) {
+      logger.debug(`[${monitor.name}] 🔄 定时轮询检查新邮件...`)
+      fetchNewMail(monitor)
+      startPolling(monitor) // 继续下一次轮询
     }
-  }, 10000) // 每30秒检查一次
+  }, monitor.pollInterval)
 }
 
-// 获取最新未读邮件
-function fetchLatestUnread(): void {
-  if (!imap || !isMonitoring) return
+// 获取新邮件：首次检查所有未读邮件，之后只增量获取 UID 大于 lastUid 的邮件
+function fetchNewMail(monitor: MailMonitor): void {
+  const { imap, lastCheckedUids } = monitor
+  if (!imap || !monitor.isMonitoring) return
 
-  imap.search(['UNSEEN'], (err, results) => {
+  const lastUid = monitor.lastUid
+  const criteria = lastUid ? [['UID', `${lastUid + 1}:*`]] : ['UNSEEN']
+
+  imap.search(criteria, (err, results) => {
     if (err) {
-      logger.error('搜索未读邮件失败:', err.message)
+      logger.error(`[${monitor.name}] 搜索新邮件失败:`, err.message)
       return
     }
 
-    if (!results || results.length === 0) {
-      logger.debug('📭 当前没有未读邮件')
+    // "n:*" 在没有更大 UID 时会返回最后一封邮件，需要过滤掉
+    const uids = (results || []).filter(uid => uid > lastUid)
+    if (uids.length === 0) {
+      logger.debug(`[${monitor.name}] 📭 当前没有新邮件`)
       return
     }
 
-    logger.info(`📬 找到 ${results.length} 封未读邮件`)
+    logger.info(`[${monitor.name}] 📬 找到 ${uids.length} 封${lastUid ? '新' : '未读'}邮件`)
 
     // 过滤出新的邮件（未处理过的UID）
-    const newUids = results.filter(uid => !lastCheckedUids.has(uid))
+    const newUids = uids.filter(uid => !lastCheckedUids.has(uid))
 
     if (newUids.length === 0) {
-      logger.debug('📋 所有未读邮件都已处理过')
+      logger.debug(`[${monitor.name}] 📋 所有未读邮件都已处理过`)
+      monitor.lastUid = Math.max(monitor.lastUid, ...uids)
       return
     }
 
-    logger.info(`🆕 发现 ${newUids.length} 封新邮件，准备获取详情`)
+    logger.info(`[${monitor.name}] 🆕 发现 ${newUids.length} 封新邮件，准备获取详情`)
 
     // 立即将新邮件UID添加到已处理集合，防止重复处理
     newUids.forEach(uid => {
@@ -377,9 +804,24 @@ function fetchLatestUnread(): void {
       logger.debug(`🔒 UID ${uid} 已标记为正在处理`)
     })
 
-    // 只获取新邮件
-    const fetch = imap!.fetch(newUids, {
-      bodies: ['HEADER.FIELDS (FROM TO SUBJECT DATE MESSAGE-ID)', 'TEXT'],
+    // 获取或处理成功后才推进 lastUid；失败时撤销标记并回退 lastUid，下次检查时重新获取
+    const succeed = () => {
+      monitor.lastUid = Math.max(monitor.lastUid, ...uids)
+    }
+    const rollback = () => {
+      newUids.forEach(uid => lastCheckedUids.delete(uid))
+      monitor.lastUid = Math.min(monitor.lastUid, Math.min(...newUids) - 1)
+    }
+    let failed = false
+    const abort = () => {
+      failed = true
+      rollback()
+    }
+    monitor.pendingFetches.add(abort)
+
+    // 只获取新邮件：头部字段用于路由，完整源码用于解析
+    const fetch = imap.fetch(newUids, {
+      bodies: [MAIL_HEADER_FIELDS, ''],
       struct: true,
       markSeen: false // 不自动标记为已读
     })
@@ -390,28 +832,21 @@ function fetchLatestUnread(): void {
       const messageData: any = { seqno, isNew: true }
 
       msg.on('body', (stream, info) => {
-        let buffer = ''
-        stream.on('data', (chunk) => {
-          buffer += chunk.toString('utf8')
+        // 以 Buffer 形式收集数据，由 mailparser 按邮件声明的字符集解码
+        const chunks: Buffer[] = []
+        stream.on('data', (chunk: Buffer) => {
+          chunks.push(chunk)
         })
         stream.once('end', () => {
-          if (info.which === 'HEADER.FIELDS (FROM TO SUBJECT DATE MESSAGE-ID)') {
+          const buffer = Buffer.concat(chunks)
+          if (info.which === MAIL_HEADER_FIELDS) {
             // 处理邮件头部
-            const parsed = Imap.parseHeader(buffer)
-            messageData.headers = {
-              from: parsed.from?.[0] || '未知发件人',
-              to: parsed.to?.[0] || '未知收件人',
-              subject: parsed.subject?.[0] || '无主题',
-              date: parsed.date?.[0] || '未知日期',
-              messageId: parsed['message-id']?.[0] || ''
-            }
-          } else if (info.which === 'TEXT') {
-            // 处理邮件正文
-            logger.debug(`📝 收到邮件正文，长度: ${buffer.length}`)
-            logger.debug(`📄 原始正文内容前200字符:`, buffer.substring(0, 200))
-            logger.debug(`📋 完整原始正文:`, buffer)
-            messageData.bodyText = buffer.trim()
-            logger.debug(`✅ 邮件正文已保存，处理后长度: ${messageData.bodyText.length}`)
+            messageData.headers = parseMailHeaders(buffer.toString('utf8'))
+          } else {
+            // 保存完整邮件源码
+            logger.debug(`📝 收到邮件源码，大小: ${buffer.length} 字节`)
+            monitor.trace?.('📄 原始源码前200字符:', buffer.toString('utf8', 0, 200))
+            messageData.source = buffer
           }
         })
       })
@@ -424,94 +859,158 @@ function fetchLatestUnread(): void {
       })
 
       msg.once('end', () => {
-        // 添加完整邮件对象的调试日志
-        logger.info(`📧 邮件对象完整结构 (UID: ${messageData.uid}):`)
-        logger.info(`📋 Headers:`, JSON.stringify(messageData.headers, null, 2))
-        logger.info(`📄 Body Text Length: ${messageData.bodyText ? messageData.bodyText.length : 0}`)
-        logger.info(`🏷️ Attributes:`, JSON.stringify(messageData.attributes, null, 2))
-        logger.info(`🚩 Flags:`, JSON.stringify(messageData.flags))
-
-        // 如果邮件正文较短，直接显示；如果较长，显示前200字符
-        if (messageData.bodyText) {
-          if (messageData.bodyText.length <= 500) {
-            logger.info(`📝 Complete Body Text:`, messageData.bodyText)
-          } else {
-            logger.info(`📝 Body Text Preview (first 500 chars):`, messageData.bodyText.substring(0, 500) + '...')
-          }
+        // 完整邮件对象的调试日志，只在开启 verbose 时输出
+        logger.debug(`📧 邮件已获取 (UID: ${messageData.uid})，源码大小: ${messageData.source ? messageData.source.length : 0}`)
+        if (monitor.trace) {
+          monitor.trace(`📋 Headers:`, JSON.stringify(messageData.headers, null, 2))
+          monitor.trace(`🏷️ Attributes:`, JSON.stringify(messageData.attributes, null, 2))
+          // 源码为 Buffer，不直接输出
+          monitor.trace(`📦 Complete Message Object:`, JSON.stringify({ ...messageData, source: undefined }, null, 2))
         }
 
-        logger.info(`📦 Complete Message Object:`, JSON.stringify(messageData, null, 2))
-
         messages.push(messageData)
       })
     })
 
     fetch.once('error', (err) => {
-      logger.error('获取未读邮件失败:', err.message)
+      monitor.pendingFetches.delete(abort)
+      if (failed) return
+      logger.error(`[${monitor.name}] 获取新邮件失败:`, err.message)
+      abort()
     })
 
     fetch.once('end', () => {
-      if (messages.length > 0) {
-        messages.sort((a, b) => b.seqno - a.seqno)
-        logger.info(`✅ 成功获取 ${messages.length} 封新邮件，准备通知`)
-        if (onNewMailCallback) {
-          onNewMailCallback(messages).catch(err => {
-            logger.error('处理新邮件回调失败:', err)
-          })
-        }
-      }
+      monitor.pendingFetches.delete(abort)
+      if (failed) return
+      if (messages.length === 0) return succeed()
+
+      messages.sort((a, b) => b.seqno - a.seqno)
+      logger.info(`[${monitor.name}] ✅ 成功获取 ${messages.length} 封新邮件，准备通知`)
+      monitor.onNewMail(monitor, messages).then(succeed, (err) => {
+        logger.error(`[${monitor.name}] 处理新邮件回调失败:`, err)
+        rollback()
+      })
     })
   })
 }
 
-// 处理连接断开
-function handleDisconnect(): void {
-  if (!isMonitoring) return
+// 计算第 n 次重连的延迟：指数退避，不超过上限，并加入 ±20% 随机抖动
+function getReconnectDelay(monitor: MailMonitor, attempt: number): number {
+  const delay = Math.min(monitor.reconnectMaxDelay, monitor.reconnectDelay * 2 ** (attempt - 1))
+  return Math.round(delay * (0.8 + Math.random() * 0.4))
+}
 
-  logger.warn('IMAP连接断开，将在30秒后尝试重连...')
+// 处理连接断开：记录故障并按退避策略安排重连
+function handleDisconnect(monitor: MailMonitor, error?: Error): void {
+  if (!monitor.isMonitoring) return
 
-  if (imap) {
-    imap.removeAllListeners()
-    imap = null
-  }
+  // error 和 end 事件可能先后触发，已安排重连时不再重复处理
+  if (monitor.reconnectTimer) return
 
-  reconnectTimer = setTimeout(() => {
-    if (isMonitoring) {
-      logger.info('尝试重新连接IMAP...')
-      connectToMailMonitor().catch(err => {
-        logger.error('重连失败:', err.message)
-      })
+  if (monitor.imap) {
+    monitor.imap.removeAllListeners()
+    try {
+      monitor.imap.end()
+    } catch (err) {
+      // 连接可能已经关闭
     }
-  }, 10000)
+    monitor.imap = null
+  }
+  // 断线时撤销尚未获取完成的邮件的标记，重连后重新获取；已在处理中的邮件保留标记，避免重复处理
+  monitor.pendingFetches.forEach(abort => abort())
+  monitor.pendingFetches.clear()
+
+  monitor.failures++
+  monitor.downSince ||= new Date()
+  if (error) monitor.lastError = error.message
+
+  if (monitor.reconnectMaxRetries && monitor.failures > monitor.reconnectMaxRetries) {
+    logger.error(`[${monitor.name}] 连续 ${monitor.reconnectMaxRetries} 次重连失败，停止重连`)
+    monitor.isMonitoring = false
+    monitor.gaveUp = true
+    monitor.nextRetryAt = null
+    return
+  }
+
+  const delay = getReconnectDelay(monitor, monitor.failures)
+  monitor.nextRetryAt = new Date(Date.now() + delay)
+  logger.warn(`[${monitor.name}] IMAP连接断开，将在 ${Math.round(delay / 1000)} 秒后进行第 ${monitor.failures} 次重连...`)
+
+  monitor.reconnectTimer = setTimeout(() => {
+    monitor.reconnectTimer = null
+    if (!monitor.isMonitoring) return
+
+    logger.info(`[${monitor.name}] 尝试重新连接IMAP...`)
+    connectToMailMonitor(monitor).catch(err => {
+      logger.error(`[${monitor.name}] 重连失败:`, err.message)
+      handleDisconnect(monitor, err)
+    })
+  }, delay)
+}
+
+// 格式化时间，用于状态显示
+function formatTime(date: Date): string {
+  return date.toLocaleString('zh-CN', { hour12: false })
 }
 
 // 获取监听状态
-function getMonitorStatus(): { isMonitoring: boolean; lastMailCount: number } {
+function getMonitorStatus(monitor: MailMonitor) {
   return {
-    isMonitoring: isMonitoring,
-    lastMailCount: lastMailCount
+    isMonitoring: monitor.isMonitoring,
+    lastMailCount: monitor.lastMailCount,
+    mailboxName: monitor.mailboxName,
+    mode: monitor.activeMode,
+    connected: !!monitor.imap && !monitor.downSince,
+    failures: monitor.failures,
+    lastConnectedAt: monitor.lastConnectedAt,
+    lastError: monitor.lastError,
+    downSince: monitor.downSince,
+    nextRetryAt: monitor.nextRetryAt,
+    gaveUp: monitor.gaveUp
   }
 }
 
 // 标记邮件为已读函数
-function markEmailAsRead(uid: number): Promise<void> {
+function markEmailAsRead(monitor: MailMonitor, uid: number): Promise<void> {
   return new Promise((resolve, reject) => {
-    if (!imap || !isMonitoring) {
+    const { imap } = monitor
+    if (!imap || !monitor.isMonitoring) {
       return reject(new Error('IMAP连接不可用'))
     }
 
     // 标记邮件为已读
     imap.addFlags(uid, ['\\Seen'], (err) => {
       if (err) {
-        logger.error(`标记邮件已读失败 (UID: ${uid}):`, err.message)
+        logger.error(`[${monitor.name}] 标记邮件已读失败 (UID: ${uid}):`, err.message)
+        return reject(err)
+      }
+
+      logger.info(`[${monitor.name}] ✅ 邮件已标记为已读 (UID: ${uid})`)
+      resolve()
+    })
+  })
+}
+
+// 移动邮件到指定文件夹
+function moveEmail(monitor: MailMonitor, uid: number, folder: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const { imap } = monitor
+    if (!imap || !monitor.isMonitoring) {
+      return reject(new Error('IMAP连接不可用'))
+    }
+
+    imap.move(uid, folder, (err) => {
+      if (err) {
+        logger.error(`[${monitor.name}] 移动邮件失败 (UID: ${uid} -> ${folder}):`, err.message)
         return reject(err)
       }
 
-      logger.info(`� 邮件已标记为已读 (UID: ${uid})`)
+      logger.info(`[${monitor.name}] 📁 邮件已移动到 ${folder} (UID: ${uid})`)
       resolve()
     })
   })
 }
+
 function getMailList(imap: Imap, mailbox: string, limit: number): Promise<any[]> {
   return new Promise((resolve, reject) => {
     imap.openBox(mailbox, true, (err, box) => {
@@ -590,8 +1089,8 @@ function getMailList(imap: Imap, mailbox: string, limit: number): Promise<any[]>
   })
 }
 
-// 搜索邮件函数 (支持不同搜索条件)
-function searchMails(imap: Imap, mailbox: string, criteria: string[], limit: number): Promise<any[]> {
+// 搜索邮件 UID（按 UID 升序），criteria 为 node-imap 搜索条件数组
+function searchMailUids(imap: Imap, mailbox: string, criteria: any[]): Promise<number[]> {
   return new Promise((resolve, reject) => {
     imap.openBox(mailbox, true, (err, box) => {
       if (err) {
@@ -599,7 +1098,7 @@ function searchMails(imap: Imap, mailbox: string, criteria: string[], limit: num
         return reject(err)
       }
 
-      logger.info(`搜索邮件 - 邮箱: ${mailbox}, 条件: ${criteria.join(', ')}, 总邮件数: ${box.messages.total}`)
+      logger.info(`搜索邮件 - 邮箱: ${mailbox}, 条件: ${JSON.stringify(criteria)}, 总邮件数: ${box.messages.total}`)
 
       if (box.messages.total === 0) {
         logger.info('邮箱中没有邮件')
@@ -612,321 +1111,902 @@ function searchMails(imap: Imap, mailbox: string, criteria: string[], limit: num
           return reject(err)
         }
 
-        if (!results || results.length === 0) {
-          logger.info(`搜索条件 ${criteria.join(', ')} 没有找到匹配的邮件`)
-          return resolve([])
-        }
-
-        logger.info(`搜索到 ${results.length} 封匹配邮件`)
+        logger.info(`搜索到 ${results?.length || 0} 封匹配邮件`)
+        resolve((results || []).sort((a, b) => a - b))
+      })
+    })
+  })
+}
 
-        // 限制结果数量，取最新的
-        const limitedResults = results.slice(-limit)
+// 获取指定 UID 的邮件头部，结果按 UID 降序（最新的在前）
+function fetchMailHeaders(imap: Imap, uids: number[]): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    if (uids.length === 0) return resolve([])
 
-        const fetch = imap.fetch(limitedResults, {
-          bodies: 'HEADER.FIELDS (FROM TO SUBJECT DATE MESSAGE-ID)',
-          struct: true
-        })
+    const fetch = imap.fetch(uids, {
+      bodies: 'HEADER.FIELDS (FROM TO SUBJECT DATE MESSAGE-ID)',
+      struct: true
+    })
 
-        const messages: any[] = []
-
-        fetch.on('message', (msg, seqno) => {
-          const messageData: any = { seqno }
-
-          msg.on('body', (stream, info) => {
-            let buffer = ''
-            stream.on('data', (chunk) => {
-              buffer += chunk.toString('utf8')
-            })
-            stream.once('end', () => {
-              const parsed = Imap.parseHeader(buffer)
-              messageData.headers = {
-                from: parsed.from?.[0] || '未知发件人',
-                to: parsed.to?.[0] || '未知收件人',
-                subject: parsed.subject?.[0] || '无主题',
-                date: parsed.date?.[0] || '未知日期',
-                messageId: parsed['message-id']?.[0] || ''
-              }
-            })
-          })
+    const messages: any[] = []
 
-          msg.once('attributes', (attrs) => {
-            messageData.attributes = attrs
-            messageData.uid = attrs.uid
-            messageData.flags = attrs.flags
-          })
+    fetch.on('message', (msg, seqno) => {
+      const messageData: any = { seqno }
 
-          msg.once('end', () => {
-            messages.push(messageData)
-          })
+      msg.on('body', (stream, info) => {
+        let buffer = ''
+        stream.on('data', (chunk) => {
+          buffer += chunk.toString('utf8')
         })
-
-        fetch.once('error', (err) => {
-          logger.error('获取搜索结果失败:', err.message)
-          reject(err)
+        stream.once('end', () => {
+          const parsed = Imap.parseHeader(buffer)
+          messageData.headers = {
+            from: parsed.from?.[0] || '未知发件人',
+            to: parsed.to?.[0] || '未知收件人',
+            subject: parsed.subject?.[0] || '无主题',
+            date: parsed.date?.[0] || '未知日期',
+            messageId: parsed['message-id']?.[0] || ''
+          }
         })
+      })
 
-        fetch.once('end', () => {
-          logger.info(`成功获取 ${messages.length} 封搜索邮件`)
-          // 按UID排序，最新的在前
-          messages.sort((a, b) => b.uid - a.uid)
-          resolve(messages)
-        })
+      msg.once('attributes', (attrs) => {
+        messageData.attributes = attrs
+        messageData.uid = attrs.uid
+        messageData.flags = attrs.flags
+      })
+
+      msg.once('end', () => {
+        messages.push(messageData)
       })
     })
+
+    fetch.once('error', (err) => {
+      logger.error('获取搜索结果失败:', err.message)
+      reject(err)
+    })
+
+    fetch.once('end', () => {
+      logger.info(`成功获取 ${messages.length} 封搜索邮件`)
+      // 按UID排序，最新的在前
+      messages.sort((a, b) => b.uid - a.uid)
+      resolve(messages)
+    })
   })
 }
 
-export function apply(ctx: Context, config: Config) {
-  // 检查配置完整性
-  const isConfigured = () => {
-    return config.imap.host && config.imap.user && config.imap.password
-  }
-
-  // 邮件监听器状态管理变量（不再使用类）
-  // let mailMonitor: MailMonitor | null = null - 已移除类实现
+// 搜索邮件函数 (支持不同搜索条件)，只获取最新的 limit 封
+async function searchMails(imap: Imap, mailbox: string, criteria: any[], limit: number): Promise<any[]> {
+  const uids = await searchMailUids(imap, mailbox, criteria)
+  return fetchMailHeaders(imap, uids.slice(-limit))
+}
 
-  // 新邮件通知处理函数
-  const handleNewMail = async (messages: any[]) => {
-    logger.info(`🎯 开始处理新邮件通知，收到 ${messages.length} 封邮件`)
-    logger.info(`📊 Messages Array:`, JSON.stringify(messages, null, 2))
+// 格式化邮件列表中的一项，redact 为聊天输出的脱敏函数
+function formatMailListItem(msg: any, index: number, redact: (text: string) => string): string {
+  const { headers } = msg
+  const isUnread = !msg.flags.includes('\\Seen') ? '🆕 ' : ''
+  const isRecent = msg.flags.includes('\\Recent') ? '🔥 ' : ''
 
-    // 检查上下文和通知环境
-    logger.info(`🔧 通知环境检查:`)
-    logger.info(`- Context对象: ${!!ctx}`)
-    logger.info(`- broadcast方法: ${typeof ctx?.broadcast}`)
-    logger.info(`- Koishi环境: ${typeof ctx?.app}`)
+  return `${index}. ${isUnread}${isRecent}${redact(headers.subject)}\n` +
+    `   📤 发件人: ${headers.from}\n` +
+    `   📅 日期: ${headers.date}\n` +
+    `   🆔 UID: ${msg.uid}\n\n`
+}
 
-    for (const msg of messages) {
-      const { headers } = msg
+// 搜索命令的选项
+interface SearchOptions {
+  from?: string
+  to?: string
+  subject?: string
+  body?: string
+  since?: string
+  before?: string
+  unseen?: boolean
+}
 
-      logger.info(`📮 处理邮件 UID: ${msg.uid}`)
-      logger.info(`📧 当前邮件完整对象:`, JSON.stringify(msg, null, 2))
+// 将搜索选项转换为 node-imap 搜索条件，没有任何条件时搜索所有邮件
+function buildSearchCriteria(options: SearchOptions): any[] | string {
+  const criteria: any[] = []
+  if (options.unseen) criteria.push('UNSEEN')
+  if (options.from) criteria.push(['FROM', options.from])
+  if (options.to) criteria.push(['TO', options.to])
+  if (options.subject) criteria.push(['SUBJECT', options.subject])
+  if (options.body) criteria.push(['BODY', options.body])
+
+  for (const key of ['since', 'before'] as const) {
+    if (!options[key]) continue
+    const date = parseDateInput(options[key])
+    if (!date) return `❌ 日期格式无效: ${options[key]}（示例: 2024-05-01 或 7d）`
+    criteria.push([key.toUpperCase(), date])
+  }
 
-      // 使用mailparser解析邮件内容
-      let parsedContent = { text: '', html: '', subject: headers.subject }
-      if (msg.bodyText) {
-        logger.info('🔄 开始解析邮件正文...')
-        parsedContent = await parseEmailContent(msg.bodyText)
+  return criteria.length ? criteria : ['ALL']
+}
 
-        // 清理邮件正文，提取核心内容
-        if (parsedContent.text) {
-          const cleanedText = cleanEmailContent(parsedContent.text)
-          parsedContent.text = cleanedText
-          logger.info(`🎯 清理后的核心内容: "${cleanedText}"`)
-        }
+// 以读写模式打开邮箱
+function openMailbox(imap: Imap, mailbox: string): Promise<Imap.Box> {
+  return new Promise((resolve, reject) => {
+    imap.openBox(mailbox, false, (err, box) => {
+      if (err) {
+        logger.error(`打开邮箱 ${mailbox} 失败:`, err.message)
+        return reject(err)
       }
+      resolve(box)
+    })
+  })
+}
 
-      // 记录详细的新邮件信息到日志
-      logger.info(`📮 收到新邮件！`)
-      logger.info(`📤 发件人: ${headers.from}`)
-      logger.info(`📋 主题: ${headers.subject}`)
-      logger.info(`📅 时间: ${headers.date}`)
-      logger.info(`🆔 UID: ${msg.uid}`)
-      logger.info(`📝 解析后的文本内容: "${parsedContent.text}"`)
-
-      logger.info(`✨ 新邮件已记录: ${headers.subject}`)
+// 邮箱中的文件夹
+interface MailFolder {
+  name: string // 完整路径，可直接用于 openBox
+  depth: number
+  selectable: boolean
+}
 
-      // 处理邮件正文内容 - 使用解析后的文本
-      let contentPreview = ''
-      if (parsedContent.text) {
-        // 内容格式化：保留重要格式，优化显示，完整显示所有内容
-        contentPreview = parsedContent.text
-          .split('\n')                              // 按行分割
-          .map(line => line.trim())                 // 移除行首行尾空白
-          .filter(line => line.length > 0)         // 移除空行
-          .join('\n')                               // 重新连接，保留换行
-          .replace(/\n{3,}/g, '\n\n')               // 最多保留两个连续换行
-          .replace(/[ \t]+/g, ' ')                  // 合并多个空格/制表符为单个空格
-          .trim()
+// 获取所有文件夹，子文件夹展开为以分隔符连接的完整路径
+function listFolders(imap: Imap): Promise<MailFolder[]> {
+  return new Promise((resolve, reject) => {
+    imap.getBoxes((err, boxes) => {
+      if (err) {
+        logger.error('获取文件夹列表失败:', err.message)
+        return reject(err)
+      }
 
-        logger.debug(`📝 内容处理完成，原长度: ${parsedContent.text.length}，处理后长度: ${contentPreview.length}`)
+      const folders: MailFolder[] = []
+      const walk = (children: Imap.MailBoxes, prefix: string, depth: number) => {
+        for (const [name, box] of Object.entries(children)) {
+          const path = prefix + name
+          const attribs = box.attribs.map(attrib => attrib.toUpperCase())
+          folders.push({ name: path, depth, selectable: !attribs.includes('\\NOSELECT') })
+          if (box.children) walk(box.children, path + box.delimiter, depth + 1)
+        }
       }
+      walk(boxes, '', 0)
+      resolve(folders)
+    })
+  })
+}
 
-      // 发送机器人通知消息
-      let notificationMsg = `📮 收到新邮件！\n` +
-        `📤 发件人: ${headers.from}\n` +
-        `📋 主题: ${headers.subject}\n` +
-        `📅 时间: ${headers.date}`
+// 获取文件夹的邮件数和未读数（不需要打开文件夹）
+function getFolderStatus(imap: Imap, name: string): Promise<Imap.Box> {
+  return new Promise((resolve, reject) => {
+    imap.status(name, (err, box) => {
+      if (err) return reject(err)
+      resolve(box)
+    })
+  })
+}
 
-      // 如果有正文内容，则添加到通知中
-      if (contentPreview) {
-        notificationMsg += `\n📄 内容: ${contentPreview}`
+// 按 UID 获取单封邮件（头部和完整源码）
+function fetchMailByUid(imap: Imap, mailbox: string, uid: number): Promise<any> {
+  return new Promise((resolve, reject) => {
+    imap.openBox(mailbox, true, (err) => {
+      if (err) {
+        logger.error(`打开邮箱 ${mailbox} 失败:`, err.message)
+        return reject(err)
       }
 
-      logger.info(`📋 通知消息构建完成，长度: ${notificationMsg.length}`)
-      logger.info(`📑 通知消息内容预览: ${notificationMsg.substring(0, 100)}...`)
+      const fetch = imap.fetch([uid], {
+        bodies: [MAIL_HEADER_FIELDS, ''],
+        struct: true
+      })
 
-      try {
-        // 检查上下文状态
-        logger.info(`🔍 检查通知发送条件...`)
-        logger.info(`📱 上下文对象存在: ${!!ctx}`)
-        logger.info(`📡 broadcast方法存在: ${typeof ctx.broadcast === 'function'}`)
+      let messageData: any = null
 
-        // 记录完整的通知消息
-        logger.info(`📝 准备发送的通知消息:`)
-        logger.info(notificationMsg)
+      fetch.on('message', (msg, seqno) => {
+        messageData = { seqno }
 
-        // 广播新邮件通知到所有活跃会话
-        logger.info(`📤 开始调用 ctx.broadcast()...`)
+        msg.on('body', (stream, info) => {
+          const chunks: Buffer[] = []
+          stream.on('data', (chunk: Buffer) => {
+            chunks.push(chunk)
+          })
+          stream.once('end', () => {
+            const buffer = Buffer.concat(chunks)
+            if (info.which === MAIL_HEADER_FIELDS) {
+              messageData.headers = parseMailHeaders(buffer.toString('utf8'))
+            } else {
+              messageData.source = buffer
+            }
+          })
+        })
 
-        const broadcastResult = await ctx.broadcast(notificationMsg)
+        msg.once('attributes', (attrs) => {
+          messageData.attributes = attrs
+          messageData.uid = attrs.uid
+          messageData.flags = attrs.flags
+        })
+      })
 
-        logger.info(`✅ ctx.broadcast() 调用完成`)
-        logger.info(`� broadcast返回值:`, broadcastResult)
-        logger.info(`�📢 邮件通知已发送: ${headers.subject}`)
+      fetch.once('error', (err) => {
+        logger.error(`获取邮件失败 (UID: ${uid}):`, err.message)
+        reject(err)
+      })
 
-        // 通知成功后标记邮件为已读
-        try {
-          await markEmailAsRead(msg.uid)
-          logger.info(`✅ 邮件已处理并标记为已读: ${headers.subject} (UID: ${msg.uid})`)
-        } catch (markReadError) {
-          logger.error(`标记邮件已读失败 (UID: ${msg.uid}):`, markReadError.message)
-          logger.warn(`邮件通知已发送但标记已读失败，可能会重复通知: ${headers.subject}`)
+      fetch.once('end', () => {
+        if (!messageData) {
+          return reject(new Error(`未找到 UID 为 ${uid} 的邮件`))
         }
-      } catch (error) {
-        logger.error('❌ 发送邮件通知失败，详细错误信息:')
-        logger.error('错误类型:', error.constructor.name)
-        logger.error('错误消息:', error.message)
-        logger.error('错误堆栈:', error.stack)
-        logger.error('broadcast方法类型:', typeof ctx.broadcast)
-        logger.warn(`邮件通知失败，不标记邮件为已读: ${headers.subject} (UID: ${msg.uid})`)
-      }
-    }
+        resolve(messageData)
+      })
+    })
+  })
+}
+
+export function apply(ctx: Context, config: Config) {
+  // 检查账户配置完整性
+  const isConfigured = (account: ImapAccount) => {
+    if (!account.host || !account.user) return false
+    return account.auth === 'xoauth2' ? isOAuth2Configured(account) : !!account.password
   }
 
-  // 注册启动监听命令
-  ctx.command('mailbot.start', '开始监听新邮件')
-    .action(async ({ session }) => {
-      if (!isConfigured()) {
-        return '❌ 请先在插件配置中设置邮箱账户信息\n' +
-          '需要配置：IMAP服务器地址、用户名、密码'
-      }
+  // 邮件监听器状态管理（每个账户的每个文件夹一个监听器对象，以显示名称为键）
+  const monitors = new Map<string, MailMonitor>()
 
-      if (getMonitorStatus().isMonitoring) {
-        return '📧 邮件监听已在运行中'
-      }
+  // 注册邮件处理状态表，用于重启和重连后去重
+  extendMailState(ctx)
 
-      try {
-        session.send('🚀 正在启动邮件监听...')
+  // 聊天输出和日志分别按配置脱敏
+  const redactor = createRedactor(config.redactRules, config.redactPatterns)
+  const redactChat = (text: string, exempt?: string[]) => config.redactChat ? redactor(text, exempt) : text
+  const redactLog = (text: string) => config.redactLogs ? redactor(text) : text
+  const trace: Trace | undefined = config.verbose ? (label, content) => logger.info(label, redactLog(content)) : undefined
 
-        await startMailMonitor(config.imap, handleNewMail)
+  // HTML 邮件渲染器
+  const renderer = createRenderer(config.renderWidth)
+  const shouldRender = (parsed: ParsedEmail) => {
+    if (!parsed.html) return false
+    return config.renderMode === 'always' || (config.renderMode === 'html-only' && parsed.htmlOnly)
+  }
 
-        return '✅ 邮件监听已启动！新邮件到达时会自动通知。'
+  // 附件转发限制
+  const attachmentOptions: AttachmentOptions = {
+    allowedTypes: config.attachmentTypes,
+    maxSize: config.attachmentMaxSize * 1024 * 1024,
+    inlineImages: config.forwardInlineImages
+  }
 
-      } catch (error) {
-        logger.error('启动邮件监听失败:', error)
-        return `❌ 启动邮件监听失败: ${error.message}`
-      }
+  // 验证码提取器（自定义规则 + 内置规则）
+  const extractCode = createCodeExtractor(compileCodeRules(config.codeRules))
+
+  // 未绑定收件地址的邮件转发到的管理频道
+  const adminTargets = config.adminChannels
+    .map((channel) => {
+      const target = parseChannelTarget(channel)
+      if (!target) logger.warn(`管理频道格式无效（应为 平台:频道ID）: ${channel}`)
+      return target
     })
+    .filter(Boolean)
 
-  // 注册停止监听命令
-  ctx.command('mailbot.stop', '停止监听新邮件')
-    .action(async ({ session }) => {
-      if (!getMonitorStatus().isMonitoring) {
-        return '📭 邮件监听当前未运行'
-      }
+  // 通知频率限制（令牌桶），分别按投递目标和邮箱账户计算
+  const targetLimiter = createRateLimiter(config.targetRateLimit)
+  const accountLimiter = createRateLimiter(config.accountRateLimit)
 
-      try {
-        stopMailMonitor()
-        return '⏹️ 邮件监听已停止'
+  // 投递目标的免打扰时段：订阅单独设置的时段优先，none 表示不启用
+  if (config.quietHours && !parseQuietHours(config.quietHours)) {
+    logger.warn(`免打扰时段格式无效（应为 HH:MM-HH:MM）: ${config.quietHours}`)
+  }
+  const getQuietHours = (target: { quietHours?: string }) => {
+    const quietHours = target.quietHours || config.quietHours
+    return quietHours === 'none' ? '' : quietHours
+  }
 
-      } catch (error) {
-        logger.error('停止邮件监听失败:', error)
-        return `❌ 停止邮件监听失败: ${error.message}`
+  // 执行邮件处理完成后的邮箱操作：标记已读、移动到文件夹
+  const applyMailboxActions = async (monitor: MailMonitor, uid: number, markRead: boolean, folder?: string) => {
+    if (markRead) {
+      try {
+        await markEmailAsRead(monitor, uid)
+      } catch (markReadError) {
+        logger.error(`标记邮件已读失败 (UID: ${uid}):`, markReadError.message)
+        logger.warn(`邮件已处理但标记已读失败，处理记录已保存，不会重复通知 (UID: ${uid})`)
       }
-    })
+    }
 
-  // 注册监听状态查询命令
-  ctx.command('mailbot.status', '查看邮件监听状态')
-    .action(async ({ session }) => {
-      if (!isConfigured()) {
-        return '❌ 邮箱配置未完成'
+    if (folder) {
+      try {
+        await moveEmail(monitor, uid, folder)
+      } catch (moveError) {
+        logger.error(`移动邮件失败 (UID: ${uid} -> ${folder}):`, moveError.message)
       }
+    }
+  }
 
-      const status = getMonitorStatus()
-      if (!status.isMonitoring) {
-        return '📭 邮件监听当前未运行\n使用 mailbot.start 开始监听'
-      }
+  // 保存邮件处理状态，数据库异常不影响通知流程
+  const updateState = async (monitor: MailMonitor, msg: any, status: MailStatus) => {
+    try {
+      await saveMailState(ctx, monitor.account.name, monitor.mailboxName, monitor.uidValidity, msg.uid, msg.headers.messageId, status)
+    } catch (error) {
+      logger.error(`保存邮件处理状态失败 (UID: ${msg.uid}):`, error.message)
+    }
+  }
 
-      return `📧 邮件监听运行中\n` +
-        `📮 邮箱: INBOX\n` +
-        `� 新邮件将记录到日志中`
-    })
-  ctx.command('mailbot.list [type]', '获取邮箱邮件列表')
-    .example('mailbot.list all      # 获取所有邮件')
-    .example('mailbot.list unread   # 获取未读邮件')
-    .example('mailbot.list recent   # 获取最近邮件')
-    .action(async ({ session }, type = 'all') => {
-      if (!isConfigured()) {
-        return '❌ 请先在插件配置中设置邮箱账户信息\n' +
-          '需要配置：IMAP服务器地址、用户名、密码'
+  // 根据投递结果和配置的策略判断是否将邮件标记为已读
+  const shouldMarkRead = (delivered: number, dead: number) => {
+    switch (config.markReadPolicy) {
+      case 'always': return true
+      case 'never': return false
+      case 'any': return delivered > 0
+      default: return dead === 0
+    }
+  }
+
+  // 邮件的所有投递都已结束（成功或放弃）时，记录处理状态并执行邮箱操作
+  const settleMail = async (mail: DeliveryMail) => {
+    const items = await ctx.database.get('mailbot_delivery', {
+      account: mail.account,
+      folder: mail.folder,
+      uidValidity: mail.uidValidity,
+      uid: mail.uid,
+    })
+    if (items.some(item => item.status === 'pending')) return
+
+    const delivered = items.filter(item => item.status === 'delivered')
+    const dead = items.length - delivered.length
+    const status: MailStatus = dead ? 'dead' : delivered.length ? 'delivered' : 'queued'
+    await saveMailState(ctx, mail.account, mail.folder, mail.uidValidity, mail.uid, mail.messageId, status)
+      .catch(error => logger.error(`保存邮件处理状态失败 (UID: ${mail.uid}):`, error.message))
+
+    // 已发送的记录不再需要，放弃的记录保留以便查看和手动重试
+    if (delivered.length) {
+      await ctx.database.remove('mailbot_delivery', { id: delivered.map(item => item.id) })
+    }
+    if (dead) {
+      logger.warn(`邮件通知有 ${dead}/${items.length} 个目标发送失败: ${redactLog(mail.subject)} (UID: ${mail.uid})`)
+    }
+
+    // 邮箱操作需要使用该文件夹的监听连接，UIDVALIDITY 变化后 UID 不再有效
+    const monitor = [...monitors.values()].find(monitor => monitor.account.name === mail.account && monitor.mailboxName === mail.folder)
+    if (!monitor?.imap || monitor.uidValidity !== mail.uidValidity) {
+      logger.warn(`[${mail.account}] 监听连接不可用，跳过邮箱操作 (UID: ${mail.uid})`)
+      return
+    }
+    const markRead = shouldMarkRead(delivered.length + mail.held, dead) || mail.markRead
+    await applyMailboxActions(monitor, mail.uid, markRead, mail.moveTo)
+  }
+
+  // 等待认领邮件的用户，按账户先到先得
+  const claims = createClaimRegistry(ctx)
+
+  // 持久化的通知投递队列，发送失败的通知按退避策略重试
+  const deliveryQueue = createDeliveryQueue(ctx, config, (item, messageIds) => {
+    rememberNotification(item.platform, messageIds, item.account, item.folder, item.uid)
+  }, settleMail, redactLog)
+
+  // 新邮件通知处理函数
+  const handleNewMail = async (monitor: MailMonitor, messages: any[]) => {
+    const { account, mailboxName } = monitor
+    logger.info(`[${monitor.name}] 🎯 开始处理新邮件通知，收到 ${messages.length} 封邮件`)
+
+    for (const msg of messages) {
+      const { headers } = msg
+
+      // 检查持久化的处理记录，已处理完毕的邮件不再重复通知
+      const state = await findMailState(ctx, account.name, mailboxName, monitor.uidValidity, msg.uid, headers.messageId)
+      if (isSettled(state)) {
+        logger.info(`📋 邮件已处理过 (状态: ${state.status})，跳过: ${redactLog(headers.subject)} (UID: ${msg.uid})`)
+        if (state.mailbox !== mailboxName || state.uid !== msg.uid || state.uidValidity !== monitor.uidValidity) {
+          await updateState(monitor, msg, state.status)
+        }
+        continue
+      }
+      await updateState(monitor, msg, 'processing')
+
+      logger.info(`📮 处理邮件 UID: ${msg.uid}`)
+      trace?.(`📧 当前邮件完整对象:`, JSON.stringify({ ...msg, source: undefined }, null, 2))
+
+      // 使用mailparser解析完整邮件，解析结果供后续通知流程使用
+      logger.info('🔄 开始解析邮件...')
+      const parsedContent = await parseEmailContent(msg.source || Buffer.alloc(0), trace)
+      msg.parsed = parsedContent
+      const sender = formatSender(parsedContent, headers.from)
+
+      // 匹配过滤和路由规则
+      const ruleResult = evaluateRules(await getActiveRules(ctx, config), {
+        account: account.name,
+        sender: headers.from,
+        recipients: [headers.to, ...extractRecipients(headers)],
+        subject: headers.subject,
+        body: parsedContent.text
+      })
+      if (ruleResult.matched.length) {
+        logger.info(`📐 命中规则: ${ruleResult.matched.join(', ')}`)
+      }
+
+      // 在清理正文之前提取验证码，避免验证码所在行被当作签名截断
+      let extracted: ExtractedCode | null = null
+      if (ruleResult.codePattern) {
+        const code = `${headers.subject}\n${parsedContent.text}`.match(ruleResult.codePattern)?.slice(1).find(Boolean)
+        if (code) extracted = { rule: ruleResult.matched.join(', '), code, confident: true }
+      } else {
+        extracted = extractCode({
+          from: sender,
+          subject: headers.subject,
+          text: parsedContent.text,
+          html: parsedContent.html
+        })
+      }
+
+      // 清理邮件正文，提取核心内容
+      if (parsedContent.text) {
+        const cleanedText = cleanEmailContent(parsedContent.text, trace)
+        parsedContent.text = cleanedText
+        trace?.('🎯 清理后的核心内容:', cleanedText)
+      }
+
+      // 记录详细的新邮件信息到日志
+      logger.info(`📮 收到新邮件！`)
+      logger.info(`📫 账户: ${account.name}`)
+      logger.info(`📁 文件夹: ${mailboxName}`)
+      logger.info(`📤 发件人: ${sender}`)
+      logger.info(`📋 主题: ${redactLog(headers.subject)}`)
+      logger.info(`📅 时间: ${headers.date}`)
+      logger.info(`🆔 UID: ${msg.uid}`)
+      trace?.('📝 解析后的文本内容:', parsedContent.text)
+
+      logger.info(`✨ 新邮件已记录: ${redactLog(headers.subject)}`)
+
+      // 存档邮件，之后可在本地查询，服务器上删除后仍可查看
+      if (config.archive) {
+        await archiveMail(ctx, {
+          account: account.name,
+          folder: mailboxName,
+          uidValidity: monitor.uidValidity,
+          uid: msg.uid,
+          messageId: headers.messageId,
+          sender,
+          recipient: headers.to,
+          subject: headers.subject,
+          date: parsedContent.date || new Date(),
+          text: parsedContent.text,
+          code: extracted?.code || extracted?.link || '',
+          sourceHash: hashSource(msg.source || Buffer.alloc(0))
+        })
+      }
+
+      // 规则要求丢弃的邮件不发送通知，只执行邮箱操作
+      if (ruleResult.drop) {
+        logger.info(`🚫 邮件已被规则丢弃: ${redactLog(headers.subject)} (UID: ${msg.uid})`)
+        await updateState(monitor, msg, 'dropped')
+        await applyMailboxActions(monitor, msg.uid, ruleResult.markRead, ruleResult.folder)
+        continue
+      }
+
+      // 处理邮件正文内容 - 使用解析后的文本
+      let contentPreview = ''
+      if (parsedContent.text && config.showContent) {
+        // 内容格式化：保留重要格式，优化显示，完整显示所有内容
+        contentPreview = parsedContent.text
+          .split('\n')                              // 按行分割
+          .map(line => line.trim())                 // 移除行首行尾空白
+          .filter(line => line.length > 0)         // 移除空行
+          .join('\n')                               // 重新连接，保留换行
+          .replace(/\n{3,}/g, '\n\n')               // 最多保留两个连续换行
+          .replace(/[ \t]+/g, ' ')                  // 合并多个空格/制表符为单个空格
+          .trim()
+
+        logger.debug(`📝 内容处理完成，原长度: ${parsedContent.text.length}，处理后长度: ${contentPreview.length}`)
+      }
+
+      // 只有可靠的提取结果才按验证码邮件处理：不渲染、不脱敏、立即发送
+      const confident = !!extracted?.confident
+
+      // 按配置将 HTML 邮件渲染为图片，渲染失败时退回文本通知
+      let rendered: Buffer | null = null
+      if (!confident && shouldRender(parsedContent)) {
+        try {
+          logger.info('🖼️ 开始渲染 HTML 邮件...')
+          rendered = await renderer.render(redactChat(parsedContent.html), parsedContent.attachments)
+        } catch (error) {
+          logger.error('❌ 渲染 HTML 邮件失败，改为发送文本内容:', error.message)
+        }
+      }
+
+      if (extracted) {
+        logger.info(`🔑 提取到${extracted.code ? '验证码' : '登录链接'} (规则: ${extracted.rule}${confident ? '' : '，不可靠'})`)
+      }
+
+      // 通知模板变量，正文过长时截断；可靠的验证码和登录链接发送给通知对象，不脱敏
+      const exempt = confident ? [extracted.code, extracted.link] : []
+      const vars = {
+        account: account.name,
+        folder: mailboxName === 'INBOX' ? '' : mailboxName,
+        from: sender,
+        fromName: parsedContent.from.name || parsedContent.from.address || headers.from,
+        fromAddress: parsedContent.from.address,
+        to: headers.to,
+        subject: redactChat(headers.subject, exempt),
+        date: parsedContent.date ? formatDate(parsedContent.date, config.locale, config.timezone) : headers.date,
+        body: rendered ? '' : truncate(redactChat(contentPreview, exempt), config.bodyMaxLength, `…\n（正文已截断，使用 mailbot.show ${msg.uid} ${monitor.name} 查看全文）`),
+        code: redactChat(extracted?.code || extracted?.link || '', exempt),
+        expiry: extracted?.expiry || '',
+        uid: msg.uid
+      }
+
+      // 转发符合类型和大小限制的附件
+      const attachments: Fragment[] = []
+      if (config.forwardAttachments && parsedContent.attachments.length) {
+        const forwarded = filterAttachments(parsedContent.attachments, attachmentOptions)
+        logger.info(`📎 附件 ${parsedContent.attachments.length} 个，转发 ${forwarded.length} 个`)
+        attachments.push(...forwarded.map(attachmentElement))
+      }
+
+      // 生成通知消息：订阅或规则指定的模板优先，否则验证码邮件和普通邮件使用各自的模板
+      const buildContents = (template?: string): Fragment[] => {
+        const notice = renderTemplate(template || (confident ? config.codeTemplate : config.notifyTemplate), vars)
+        // 已渲染为图片时随通知发送图片
+        const contents: Fragment[] = [rendered ? [notice, h.image(rendered, 'image/png')] : notice]
+        if (extracted?.code && config.codeSeparate) {
+          contents.push(extracted.code)
+        }
+        return [...contents, ...attachments]
+      }
+
+      // 有用户认领时只私聊发送给最早登记的认领者（按服务器的 INTERNALDATE 判断邮件是否在认领之后到达）；
+      // 规则指定了通知目标时只发送给这些目标；否则收件地址已绑定用户时只私聊发送给所有者，再否则发送给订阅者和管理频道
+      const claim = claims.take(account.name, sender, msg.attributes?.date || new Date())
+      // 规则目标和绑定地址的所有者同样需要有权查看账户的邮件
+      let targets: (DeliveryTarget & { template?: string; quietHours?: string })[] = claim
+        ? [claim.target]
+        : ruleResult.targets.length
+          ? ruleResult.targets.filter(target => canAccess(account, target))
+          : (await getAddressOwners(ctx, account.name, headers)).filter(owner => canAccess(account, owner))
+      if (claim) {
+        logger.info(`🙋 邮件已被认领 #${claim.id}，仅私聊发送给 ${describeTarget(claim.target)}`)
+        await recordAudit(ctx, claim.target, { action: 'claimed', account: account.name, folder: mailboxName, uid: msg.uid, detail: `#${claim.id}` })
+      } else if (ruleResult.targets.length > 0) {
+        logger.info(`📐 按规则发送给 ${targets.length} 个目标`)
+      } else if (targets.length > 0) {
+        logger.info(`📧 收件地址已绑定，仅私聊发送给 ${targets.length} 个所有者`)
+      } else {
+        // 账户配置了白名单时，只发送给白名单中的订阅者和管理频道
+        const subscribers = await getSubscribers(ctx, account.name, headers)
+        targets = [...subscribers, ...adminTargets].filter(target => canAccess(account, target))
+      }
+
+      if (targets.length === 0) {
+        logger.warn(`[${monitor.name}] 没有匹配的订阅或绑定，邮件不会被推送: ${redactLog(headers.subject)} (UID: ${msg.uid})`)
+        await updateState(monitor, msg, 'unrouted')
+        await applyMailboxActions(monitor, msg.uid, ruleResult.markRead, ruleResult.folder)
+        continue
+      }
+
+      const defaultContents = buildContents(ruleResult.template)
+      // 日志中的通知不包含验证码
+      const notice = h.normalize(defaultContents[0]).filter(element => element.type === 'text').join('')
+      logger.info(`📝 准备发送的通知消息:`)
+      logger.info(redactLog(vars.code ? notice.split(vars.code).join('******') : notice))
+
+      // 判断是否暂缓发送：免打扰时段、摘要模式、超出账户或目标的频率限制（依次判断）。
+      // 可靠的验证码、被认领的邮件和紧急规则命中的邮件总是立即发送
+      const urgent = confident || !!claim || ruleResult.urgent
+      let accountAllowed: boolean | undefined
+      const getHoldReason = (target: typeof targets[number]): DigestReason | null => {
+        if (urgent) return null
+        if (isQuietTime(getQuietHours(target), new Date(), config.timezone)) return 'quiet'
+        if (config.digestMode !== 'off') return 'digest'
+        accountAllowed ??= accountLimiter.take(account.name)
+        if (!accountAllowed || !targetLimiter.take(getTargetKey(target))) return 'limited'
+        return null
+      }
+
+      // 先判断每个目标是否暂缓发送，暂缓的目标数随投递记录保存，投递结束后用于判断是否标记已读
+      const reasons = targets.map(getHoldReason)
+      const mail: DeliveryMail = {
+        account: account.name,
+        folder: mailboxName,
+        uidValidity: monitor.uidValidity,
+        uid: msg.uid,
+        messageId: headers.messageId,
+        subject: headers.subject,
+        markRead: ruleResult.markRead,
+        moveTo: ruleResult.folder || '',
+        held: reasons.filter(Boolean).length
+      }
+
+      // 立即发送的目标先全部加入投递队列，再逐个发送
+      let failed = 0
+      const queued: QueuedDelivery[] = []
+      const digested: DigestItem[] = []
+      for (const [index, target] of targets.entries()) {
+        try {
+          const reason = reasons[index]
+          if (reason) {
+            digested.push(await queueDigest(ctx, target, {
+              reason,
+              quietHours: getQuietHours(target),
+              account: account.name,
+              folder: mailboxName,
+              uid: msg.uid,
+              sender,
+              subject: vars.subject, // 摘要直接发送到聊天，使用脱敏后的主题
+              date: parsedContent.date || new Date()
+            }))
+            logger.info(`📰 邮件已暂缓发送到 ${describeTarget(target)} (${reason}): ${redactLog(headers.subject)}`)
+            continue
+          }
+
+          const contents = target.template ? buildContents(target.template) : defaultContents
+          queued.push(await deliveryQueue.enqueue(target, mail, contents))
+        } catch (error) {
+          failed++
+          logger.error(`❌ 通知加入投递队列失败 ${describeTarget(target)}:`, error.message)
+        }
+      }
+
+      // 无法加入队列时撤销已加入的记录，邮件保持未处理状态，重启或重连后重新处理所有目标
+      if (failed > 0) {
+        try {
+          if (queued.length) await ctx.database.remove('mailbot_delivery', { id: queued.map(item => item.id) })
+          if (digested.length) await ctx.database.remove('mailbot_digest', { id: digested.map(item => item.id) })
+        } catch (error) {
+          logger.error(`撤销已加入队列的通知失败 (UID: ${msg.uid}):`, error.message)
+        }
+        await updateState(monitor, msg, 'failed')
+        logger.warn(`邮件通知有 ${failed}/${targets.length} 个目标未能加入投递队列，不标记邮件为已读: ${redactLog(headers.subject)} (UID: ${msg.uid})`)
+        continue
+      }
+
+      // 所有目标都暂缓发送时直接结束处理，否则在最后一个目标投递结束后结束处理
+      if (!queued.length) {
+        await settleMail(mail)
+        continue
+      }
+      await updateState(monitor, msg, 'pending')
+      for (const item of queued) {
+        await deliveryQueue.attempt(item)
       }
+    }
+  }
 
+  // 向所有管理频道发送消息
+  const notifyAdmins = async (content: string) => {
+    for (const target of adminTargets) {
+      try {
+        await sendToTarget(ctx, target, content)
+      } catch (error) {
+        logger.error(`发送管理通知到 ${describeTarget(target)} 失败:`, error.message)
+      }
+    }
+  }
+
+  // 检查账户健康状态：断线超过阈值（或放弃重连）时告警，恢复后发送恢复通知
+  const checkHealth = async () => {
+    if (!config.alertThreshold) return
+
+    for (const monitor of monitors.values()) {
+      const { downSince } = monitor
+
+      if (!downSince) {
+        if (monitor.alerted && monitor.isMonitoring) {
+          await notifyAdmins(`✅ 邮箱账户 [${monitor.name}] 已恢复连接`)
+        }
+        monitor.alerted = false
+        continue
+      }
+
+      const downMinutes = Math.floor((Date.now() - downSince.getTime()) / 60000)
+      if (monitor.alerted || (!monitor.gaveUp && downMinutes < config.alertThreshold)) continue
+
+      monitor.alerted = true
+      logger.warn(`[${monitor.name}] 账户已断线 ${downMinutes} 分钟，发送告警`)
+      await notifyAdmins(`⚠️ 邮箱账户 [${monitor.name}] 已断线 ${downMinutes} 分钟\n` +
+        `🔁 连续失败次数: ${monitor.failures}\n` +
+        `❗ 最后错误: ${monitor.lastError || '未知'}` +
+        (monitor.gaveUp ? `\n已停止重连，请检查配置后使用 mailbot.start ${monitor.name} 重新启动` : ''))
+    }
+  }
+
+  // 根据名称选择监听器：账户名选择该账户的所有文件夹，账户/文件夹 只选择单个文件夹，未指定时返回全部
+  const selectMonitors = (name?: string): MailMonitor[] | string => {
+    if (!monitors.size) {
+      return '❌ 请先在插件配置中设置邮箱账户信息\n' +
+        '需要配置：账户名称、IMAP服务器地址、用户名、密码'
+    }
+
+    if (!name) return [...monitors.values()]
+
+    const selected = [...monitors.values()].filter(monitor => monitor.name === name || monitor.account.name === name)
+    if (!selected.length) {
+      return `❌ 未找到已配置的邮箱账户: ${name}\n` +
+        `可用账户: ${[...monitors.keys()].join(', ')}`
+    }
+    return selected
+  }
+
+  // 选择当前用户有权查看的监听器：指定的账户无权查看时返回错误，未指定时只保留有权查看的账户
+  const selectAccessible = (session: Session, name?: string): MailMonitor[] | string => {
+    const selected = selectMonitors(name)
+    if (typeof selected === 'string') return selected
+
+    const allowed = selected.filter(monitor => canAccess(monitor.account, getActor(session)))
+    if (!allowed.length) {
+      return name ? `🔒 你没有权限查看账户 ${name} 的邮件` : '🔒 你没有权限查看任何账户的邮件'
+    }
+    return allowed
+  }
+
+  // 注册启动监听命令
+  ctx.command('mailbot.start [account:string]', '开始监听新邮件', { authority: config.manageAuthority })
+    .action(async ({ session }, name) => {
+      const selected = selectMonitors(name)
+      if (typeof selected === 'string') return selected
+
+      const pending = selected.filter(monitor => !getMonitorStatus(monitor).isMonitoring)
+      if (pending.length === 0) {
+        return name ? `📧 [${name}] 邮件监听已在运行中` : '📧 所有账户的邮件监听均已在运行中'
+      }
+
+      session.send('🚀 正在启动邮件监听...')
+
+      const results: string[] = []
+      for (const monitor of pending) {
+        try {
+          await startMailMonitor(monitor)
+          results.push(`✅ [${monitor.name}] 邮件监听已启动！新邮件到达时会自动通知。`)
+        } catch (error) {
+          logger.error(`[${monitor.name}] 启动邮件监听失败:`, error)
+          results.push(`❌ [${monitor.name}] 启动邮件监听失败: ${error.message}${monitor.gaveUp ? '' : '，将自动重试'}`)
+        }
+      }
+
+      return results.join('\n')
+    })
+
+  // 注册停止监听命令
+  ctx.command('mailbot.stop [account:string]', '停止监听新邮件', { authority: config.manageAuthority })
+    .action(async ({ session }, name) => {
+      const selected = selectMonitors(name)
+      if (typeof selected === 'string') return selected
+
+      const running = selected.filter(monitor => getMonitorStatus(monitor).isMonitoring)
+      if (running.length === 0) {
+        return name ? `📭 [${name}] 邮件监听当前未运行` : '📭 邮件监听当前未运行'
+      }
+
+      const results: string[] = []
+      for (const monitor of running) {
+        try {
+          stopMailMonitor(monitor)
+          results.push(`⏹️ [${monitor.name}] 邮件监听已停止`)
+        } catch (error) {
+          logger.error(`[${monitor.name}] 停止邮件监听失败:`, error)
+          results.push(`❌ [${monitor.name}] 停止邮件监听失败: ${error.message}`)
+        }
+      }
+
+      return results.join('\n')
+    })
+
+  // 注册监听状态查询命令
+  ctx.command('mailbot.status [account:string]', '查看邮件监听状态', { authority: config.viewAuthority })
+    .action(async ({ session }, name) => {
+      const selected = selectAccessible(session, name)
+      if (typeof selected === 'string') return selected
+
+      const lines = selected.map((monitor) => {
+        const status = getMonitorStatus(monitor)
+        let result: string
+        if (status.gaveUp) {
+          result = `❌ [${monitor.name}] 连续重连失败，已停止监听`
+        } else if (!status.isMonitoring) {
+          result = `📭 [${monitor.name}] 邮件监听当前未运行`
+        } else if (!status.connected) {
+          result = `⚠️ [${monitor.name}] 连接中断，正在重连\n` +
+            `   📮 邮箱: ${status.mailboxName}`
+        } else {
+          result = `📧 [${monitor.name}] 邮件监听运行中\n` +
+            `   📮 邮箱: ${status.mailboxName}\n` +
+            `   🔔 检测方式: ${status.mode === 'idle' ? 'IDLE 推送' : status.mode === 'poll' ? '定时轮询' : 'IDLE 推送 + 定时轮询'}`
+        }
+
+        // 连接健康信息
+        if (status.lastConnectedAt) {
+          result += `\n   ✅ 最近连接成功: ${formatTime(status.lastConnectedAt)}`
+        }
+        if (status.downSince) {
+          result += `\n   ⏱️ 断线开始: ${formatTime(status.downSince)}`
+        }
+        if (status.failures > 0) {
+          result += `\n   🔁 连续失败次数: ${status.failures}`
+        }
+        if (status.nextRetryAt) {
+          result += `\n   ⏳ 下次重连: ${formatTime(status.nextRetryAt)}`
+        }
+        if (status.lastError && (status.downSince || !status.isMonitoring)) {
+          result += `\n   ❗ 最后错误: ${status.lastError}`
+        }
+        return result
+      })
+
+      if (selected.every(monitor => !getMonitorStatus(monitor).isMonitoring)) {
+        lines.push('使用 mailbot.start [账户] 开始监听')
+      }
+
+      // 等待中的认领，按登记顺序排列，只显示有权查看的账户
+      const accounts = [...new Set(selected.map(monitor => monitor.account.name))]
+      const waiting = accounts.flatMap(account => claims.list(account))
+      if (waiting.length) {
+        lines.push(`🙋 等待中的认领 (${waiting.length}):`)
+        lines.push(...waiting.map(claim => `   [${claim.account}] ${describeClaim(claim, config)}`))
+      }
+
+      return lines.join('\n')
+    })
+
+  ctx.command('mailbot.list [type] [account:string]', '获取邮箱邮件列表', { authority: config.viewAuthority })
+    .option('folder', '-f <folder:string> 指定文件夹')
+    .example('mailbot.list all      # 获取所有邮件')
+    .example('mailbot.list unread   # 获取未读邮件')
+    .example('mailbot.list recent   # 获取最近邮件')
+    .example('mailbot.list unread work  # 获取账户 work 的未读邮件')
+    .example('mailbot.list unread -f Junk  # 获取垃圾邮件文件夹中的未读邮件')
+    .action(async ({ session, options }, type = 'all', name) => {
+      const selected = selectAccessible(session, name)
+      if (typeof selected === 'string') return selected
+
+      // 未指定账户时使用第一个账户，未指定文件夹时使用所选监听器的文件夹
+      const { account, mailboxName } = selected[0]
       let imap: Imap | null = null
 
       try {
-        session.send('📧 正在连接邮箱服务器...')
+        session.send(`📧 正在连接邮箱服务器 [${account.name}]...`)
 
         // 连接到IMAP服务器
-        imap = await connectToImap(config.imap)
+        imap = await connectToImap(account)
 
         session.send(`📬 正在获取邮件列表 (${type})...`)
 
+        const folder = options.folder || mailboxName
+        await recordAudit(ctx, getActor(session), { action: 'list', account: account.name, folder, uid: 0, detail: type })
         let messages: any[] = []
         let typeDesc = ''
 
         // 根据选项选择获取方式
         switch (type) {
           case 'unread':
-            messages = await searchMails(imap, 'INBOX', ['UNSEEN'], config.fetchLimit)
+            messages = await searchMails(imap, folder, ['UNSEEN'], config.fetchLimit)
             typeDesc = '未读'
             break
           case 'recent':
-            messages = await searchMails(imap, 'INBOX', ['RECENT'], config.fetchLimit)
+            messages = await searchMails(imap, folder, ['RECENT'], config.fetchLimit)
             typeDesc = '最近'
             break
           case 'all':
           default:
             // 尝试搜索所有邮件，如果失败则使用原来的序号方式
             try {
-              messages = await searchMails(imap, 'INBOX', ['ALL'], config.fetchLimit)
+              messages = await searchMails(imap, folder, ['ALL'], config.fetchLimit)
               typeDesc = '所有'
             } catch (searchError) {
               logger.warn('搜索所有邮件失败，尝试使用序号方式:', searchError.message)
-              messages = await getMailList(imap, 'INBOX', config.fetchLimit)
+              messages = await getMailList(imap, folder, config.fetchLimit)
               typeDesc = '所有(序号方式)'
             }
             break
         }
 
         if (messages.length === 0) {
-          return `📭 邮箱 "INBOX" 中没有${typeDesc}邮件\n` +
+          return `📭 [${account.name}] 邮箱 "${folder}" 中没有${typeDesc}邮件\n` +
             `💡 提示: 可以尝试其他类型:\n` +
-            `   mailbot.list -t unread  (未读邮件)\n` +
-            `   mailbot.list -t recent  (最近邮件)\n` +
-            `   mailbot.list -t all     (所有邮件)`
+            `   mailbot.list unread  (未读邮件)\n` +
+            `   mailbot.list recent  (最近邮件)\n` +
+            `   mailbot.list all     (所有邮件)\n` +
+            `   或使用 mailbot.search 按条件搜索`
         }
 
         // 格式化邮件列表
-        let result = `📮 邮箱 "INBOX" 中的${typeDesc}邮件 (${messages.length} 封):\n\n`
+        let result = `📮 [${account.name}] 邮箱 "${folder}" 中的${typeDesc}邮件 (${messages.length} 封):\n\n`
 
         messages.forEach((msg, index) => {
-          const { headers } = msg
-          const isUnread = !msg.flags.includes('\\Seen') ? '🆕 ' : ''
-          const isRecent = msg.flags.includes('\\Recent') ? '🔥 ' : ''
-
-          result += `${index + 1}. ${isUnread}${isRecent}${headers.subject}\n`
-          result += `   📤 发件人: ${headers.from}\n`
-          result += `   📅 日期: ${headers.date}\n`
-          result += `   🆔 UID: ${msg.uid}\n\n`
+          result += formatMailListItem(msg, index + 1, redactChat)
         })
 
         return result.trim()
 
       } catch (error) {
-        logger.error('获取邮件列表失败:', error)
+        logger.error(`[${account.name}] 获取邮件列表失败:`, error)
         return `❌ 获取邮件列表失败: ${error.message}\n` +
-          `💡 可以尝试: mailbot.test 测试连接`
+          `💡 可以尝试: mailbot.test ${account.name} 测试连接`
       } finally {
         // 确保关闭IMAP连接
         if (imap) {
@@ -939,29 +2019,551 @@ export function apply(ctx: Context, config: Config) {
       }
     })
 
+  // 注册邮件搜索命令
+  ctx.command('mailbot.search [account:string]', '按条件搜索邮件', { authority: config.viewAuthority })
+    .option('from', '--from <value:string> 发件人包含')
+    .option('to', '--to <value:string> 收件人包含')
+    .option('subject', '--subject <value:string> 主题包含')
+    .option('body', '--body <value:string> 正文包含')
+    .option('since', '--since <date:string> 不早于该日期（如 2024-05-01 或 7d）')
+    .option('before', '--before <date:string> 早于该日期')
+    .option('unseen', '-u, --unseen 只搜索未读邮件')
+    .option('folder', '-f <folder:string> 指定文件夹')
+    .option('limit', '-l <limit:posint> 每页数量（默认为 fetchLimit 配置）')
+    .option('page', '-p <page:posint> 查看指定页', { fallback: 1 })
+    .example('mailbot.search --from github --since 7d     # 最近 7 天 GitHub 的邮件')
+    .example('mailbot.search --subject 发票 -f Archive    # 在 Archive 文件夹中按主题搜索')
+    .example('mailbot.search -u --body 验证码 work -p 2   # 账户 work 中正文包含验证码的未读邮件第 2 页')
+    .action(async ({ session, options }, name) => {
+      const selected = selectAccessible(session, name)
+      if (typeof selected === 'string') return selected
+
+      const criteria = buildSearchCriteria(options)
+      if (typeof criteria === 'string') return criteria
+
+      const { account, mailboxName } = selected[0]
+      const folder = options.folder || mailboxName
+      const limit = options.limit || config.fetchLimit
+      await recordAudit(ctx, getActor(session), { action: 'search', account: account.name, folder, uid: 0, detail: JSON.stringify(criteria) })
+      let imap: Imap | null = null
+
+      try {
+        session.send(`🔍 正在搜索邮件 [${account.name}] ${folder}...`)
+        imap = await connectToImap(account)
+
+        // 最新的邮件排在最前，按页获取头部
+        const uids = (await searchMailUids(imap, folder, criteria)).reverse()
+        if (uids.length === 0) {
+          return `📭 [${account.name}] 邮箱 "${folder}" 中没有符合条件的邮件`
+        }
+
+        const pageCount = Math.ceil(uids.length / limit)
+        if (options.page > pageCount) {
+          return `❌ 页码超出范围，共 ${pageCount} 页`
+        }
+
+        const start = (options.page - 1) * limit
+        const messages = await fetchMailHeaders(imap, uids.slice(start, start + limit))
+
+        let result = `🔍 [${account.name}] 邮箱 "${folder}" 中找到 ${uids.length} 封邮件` +
+          (pageCount > 1 ? ` (第 ${options.page}/${pageCount} 页):\n\n` : ':\n\n')
+        messages.forEach((msg, index) => {
+          result += formatMailListItem(msg, start + index + 1, redactChat)
+        })
+        if (options.page < pageCount) {
+          result += `使用 -p ${options.page + 1} 查看下一页`
+        }
+
+        return result.trim()
+      } catch (error) {
+        logger.error(`[${account.name}] 搜索邮件失败:`, error)
+        return `❌ 搜索邮件失败: ${error.message}`
+      } finally {
+        if (imap) {
+          try {
+            imap.end()
+          } catch (err) {
+            logger.error('关闭IMAP连接失败:', err)
+          }
+        }
+      }
+    })
+
+  // 注册文件夹列表命令
+  ctx.command('mailbot.folders [account:string]', '查看邮箱中的文件夹及邮件数', { authority: config.viewAuthority })
+    .action(async ({ session }, name) => {
+      const selected = selectAccessible(session, name)
+      if (typeof selected === 'string') return selected
+
+      const { account } = selected[0]
+      const watched = new Set([...monitors.values()]
+        .filter(monitor => monitor.account === account)
+        .map(monitor => monitor.mailboxName))
+      let imap: Imap | null = null
+
+      try {
+        session.send(`📂 正在获取文件夹列表 [${account.name}]...`)
+        imap = await connectToImap(account)
+
+        const folders = await listFolders(imap)
+        const lines: string[] = []
+        for (const folder of folders) {
+          let line = `${'  '.repeat(folder.depth)}📁 ${folder.name}`
+          if (folder.selectable) {
+            try {
+              const { messages } = await getFolderStatus(imap, folder.name)
+              line += ` (${messages.total} 封，未读 ${messages.unseen})`
+            } catch (error) {
+              line += ' (无法获取状态)'
+            }
+          }
+          if (watched.has(folder.name)) line += ' 👁️'
+          lines.push(line)
+        }
+
+        return `📂 [${account.name}] 文件夹列表 (${folders.length} 个，👁️ 为正在监听):\n` + lines.join('\n')
+      } catch (error) {
+        logger.error(`[${account.name}] 获取文件夹列表失败:`, error)
+        return `❌ 获取文件夹列表失败: ${error.message}`
+      } finally {
+        if (imap) {
+          try {
+            imap.end()
+          } catch (err) {
+            logger.error('关闭IMAP连接失败:', err)
+          }
+        }
+      }
+    })
+
   // 注册测试连接命令
-  ctx.command('mailbot.test', '测试邮箱连接')
-    .action(async ({ session }) => {
-      if (!isConfigured()) {
-        return '❌ 请先在插件配置中设置邮箱账户信息\n' +
-          '需要配置：IMAP服务器地址、用户名、密码'
+  ctx.command('mailbot.test [account:string]', '测试邮箱连接', { authority: config.manageAuthority })
+    .action(async ({ session }, name) => {
+      const selected = selectMonitors(name)
+      if (typeof selected === 'string') return selected
+
+      session.send('🔧 正在测试邮箱连接...')
+
+      // 同一账户的多个文件夹只测试一次
+      const accounts = new Set(selected.map(monitor => monitor.account))
+
+      const results: string[] = []
+      for (const account of accounts) {
+        let imap: Imap | null = null
+
+        try {
+          // 测试连接
+          imap = await connectToImap(account)
+
+          results.push(`✅ [${account.name}] 邮箱连接测试成功！\n服务器: ${account.host}:${account.port}\n用户: ${account.user}`)
+
+        } catch (error) {
+          logger.error(`[${account.name}] 邮箱连接测试失败:`, error)
+          results.push(`❌ [${account.name}] 邮箱连接测试失败: ${error.message}`)
+        } finally {
+          // 确保关闭IMAP连接
+          if (imap) {
+            try {
+              imap.end()
+            } catch (err) {
+              logger.error('关闭IMAP连接失败:', err)
+            }
+          }
+        }
       }
 
+      return results.join('\n')
+    })
+
+  // 注册按需渲染命令
+  ctx.command('mailbot.render <uid:posint> [account:string]', '将指定邮件渲染为图片', { authority: config.viewAuthority })
+    .option('folder', '-f <folder:string> 邮件所在文件夹')
+    .action(async ({ session, options }, uid, name) => {
+      if (!uid) return '❌ 请输入邮件 UID'
+
+      const selected = selectAccessible(session, name)
+      if (typeof selected === 'string') return selected
+
+      const { account, mailboxName } = selected[0]
+      const mailbox = options.folder || mailboxName
+      await recordAudit(ctx, getActor(session), { action: 'render', account: account.name, folder: mailbox, uid })
       let imap: Imap | null = null
 
       try {
-        session.send('🔧 正在测试邮箱连接...')
+        session.send(`🖼️ 正在渲染邮件 UID ${uid}...`)
+        imap = await connectToImap(account)
+        const msg = await fetchMailByUid(imap, mailbox, uid)
+        const parsed = await parseEmailContent(msg.source || Buffer.alloc(0))
+        if (!parsed.html) {
+          return `📄 该邮件没有 HTML 正文:\n${redactChat(parsed.text) || '(空)'}`
+        }
+
+        const image = await renderer.render(redactChat(parsed.html), parsed.attachments)
+        return [`📋 ${redactChat(parsed.subject)}\n`, h.image(image, 'image/png')]
+      } catch (error) {
+        logger.error(`[${account.name}] 渲染邮件失败:`, error)
+        return `❌ 渲染邮件失败: ${error.message}`
+      } finally {
+        if (imap) {
+          try {
+            imap.end()
+          } catch (err) {
+            logger.error('关闭IMAP连接失败:', err)
+          }
+        }
+      }
+    })
+
+  // 最近发送的通知消息与邮件的对应关系，用于回复通知来操作邮件
+  const notifications = new Map<string, { account: string; folder: string; uid: number }>()
+  const rememberNotification = (platform: string, messageIds: string[], account: string, folder: string, uid: number) => {
+    for (const messageId of messageIds) {
+      notifications.set(`${platform}:${messageId}`, { account, folder, uid })
+    }
+    // 只保留最近的 500 条记录
+    for (const key of notifications.keys()) {
+      if (notifications.size <= 500) break
+      notifications.delete(key)
+    }
+  }
+
+  // 使用一次性 IMAP 连接执行操作，完成后关闭连接
+  const withImap = async <T>(account: ImapAccount, action: (imap: Imap) => Promise<T>): Promise<T> => {
+    const imap = await connectToImap(account)
+    try {
+      return await action(imap)
+    } finally {
+      try {
+        imap.end()
+      } catch (err) {
+        logger.error('关闭IMAP连接失败:', err)
+      }
+    }
+  }
+
+  // 注册邮件标记命令
+  ctx.command('mailbot.mark <uid:posint> <action:string> [account:string]', '标记邮件为已读、未读或星标', { authority: config.actionAuthority })
+    .option('folder', '-f <folder:string> 邮件所在文件夹')
+    .example('mailbot.mark 123 read       # 标记为已读')
+    .example('mailbot.mark 123 unread     # 标记为未读')
+    .example('mailbot.mark 123 flagged    # 添加星标')
+    .example('mailbot.mark 123 unflagged  # 取消星标')
+    .action(async ({ session, options }, uid, action, name) => {
+      if (!uid) return '❌ 请输入邮件 UID'
+
+      const flagActions = {
+        read: { add: true, flag: '\\Seen', desc: '已读' },
+        unread: { add: false, flag: '\\Seen', desc: '未读' },
+        flagged: { add: true, flag: '\\Flagged', desc: '星标' },
+        unflagged: { add: false, flag: '\\Flagged', desc: '取消星标' }
+      }
+      const flagAction = flagActions[action as keyof typeof flagActions]
+      if (!flagAction) return '❌ 操作无效，可选: read / unread / flagged / unflagged'
+
+      const selected = selectAccessible(session, name)
+      if (typeof selected === 'string') return selected
+      const { account, mailboxName } = selected[0]
+      const mailbox = options.folder || mailboxName
+
+      await recordAudit(ctx, getActor(session), { action: 'mark', account: account.name, folder: mailbox, uid, detail: action })
+      try {
+        await withImap(account, async (imap) => {
+          await openMailbox(imap, mailbox)
+          await new Promise<void>((resolve, reject) => {
+            const callback = (err: Error) => err ? reject(err) : resolve()
+            if (flagAction.add) {
+              imap.addFlags(uid, flagAction.flag, callback)
+            } else {
+              imap.delFlags(uid, flagAction.flag, callback)
+            }
+          })
+        })
+        logger.info(`[${account.name}] 邮件 UID ${uid} 已标记为${flagAction.desc}`)
+        return `✅ 邮件 UID ${uid} 已标记为${flagAction.desc}`
+      } catch (error) {
+        logger.error(`[${account.name}] 标记邮件失败:`, error)
+        return `❌ 标记邮件失败: ${error.message}`
+      }
+    })
+
+  // 注册邮件移动命令
+  ctx.command('mailbot.move <uid:posint> <folder:string> [account:string]', '移动邮件到指定文件夹', { authority: config.actionAuthority })
+    .option('folder', '-f <folder:string> 邮件所在文件夹')
+    .action(async ({ session, options }, uid, folder, name) => {
+      if (!uid || !folder) return '❌ 请输入邮件 UID 和目标文件夹'
 
-        // 测试连接
-        imap = await connectToImap(config.imap)
+      const selected = selectAccessible(session, name)
+      if (typeof selected === 'string') return selected
+      const { account, mailboxName } = selected[0]
+      const mailbox = options.folder || mailboxName
+
+      await recordAudit(ctx, getActor(session), { action: 'move', account: account.name, folder: mailbox, uid, detail: folder })
+      try {
+        await withImap(account, async (imap) => {
+          await openMailbox(imap, mailbox)
+          await new Promise<void>((resolve, reject) => {
+            imap.move(uid, folder, err => err ? reject(err) : resolve())
+          })
+        })
+        logger.info(`[${account.name}] 邮件 UID ${uid} 已移动到 ${folder}`)
+        return `📁 邮件 UID ${uid} 已移动到 ${folder}`
+      } catch (error) {
+        logger.error(`[${account.name}] 移动邮件失败:`, error)
+        return `❌ 移动邮件失败: ${error.message}`
+      }
+    })
 
-        return `✅ 邮箱连接测试成功！\n服务器: ${config.imap.host}:${config.imap.port}\n用户: ${config.imap.user}`
+  // 注册邮件删除命令，彻底删除（expunge）前需要确认
+  ctx.command('mailbot.delete <uid:posint> [account:string]', '删除邮件', { authority: config.actionAuthority })
+    .option('folder', '-f <folder:string> 邮件所在文件夹')
+    .option('yes', '-y 跳过确认')
+    .action(async ({ session, options }, uid, name) => {
+      if (!uid) return '❌ 请输入邮件 UID'
+
+      const selected = selectAccessible(session, name)
+      if (typeof selected === 'string') return selected
+      const { account, mailboxName } = selected[0]
+      const mailbox = options.folder || mailboxName
+
+      if (!options.yes) {
+        await session.send(`⚠️ 确定要彻底删除邮件 UID ${uid} [${account.name}] 吗？删除后无法恢复。\n30 秒内回复「确认」继续`)
+        const answer = await session.prompt(30000)
+        if (answer?.trim() !== '确认') return '已取消删除'
+      }
 
+      await recordAudit(ctx, getActor(session), { action: 'delete', account: account.name, folder: mailbox, uid })
+      try {
+        await withImap(account, async (imap) => {
+          // 不支持 UIDPLUS 时 EXPUNGE 会清除文件夹中所有带删除标记的邮件，不能只删除这一封
+          if (!imap.serverSupports('UIDPLUS')) {
+            throw new Error('服务器不支持 UIDPLUS，无法只删除这一封邮件，可以使用 mailbot.move 移动到废纸篓')
+          }
+          await openMailbox(imap, mailbox)
+          await new Promise<void>((resolve, reject) => {
+            imap.addFlags(uid, '\\Deleted', err => err ? reject(err) : resolve())
+          })
+          await new Promise<void>((resolve, reject) => {
+            imap.expunge(uid, err => err ? reject(err) : resolve())
+          })
+        })
+        logger.info(`[${account.name}] 邮件 UID ${uid} 已删除`)
+        return `🗑️ 邮件 UID ${uid} 已删除`
       } catch (error) {
-        logger.error('邮箱连接测试失败:', error)
-        return `❌ 邮箱连接测试失败: ${error.message}`
+        logger.error(`[${account.name}] 删除邮件失败:`, error)
+        return `❌ 删除邮件失败: ${error.message}`
+      }
+    })
+
+  // 回复通知消息来操作对应邮件，如回复「已读」「删除」「移动 Junk」
+  ctx.middleware(async (session, next) => {
+    if (!session.quote?.id) return next()
+
+    const mail = notifications.get(`${session.platform}:${session.quote.id}`)
+    if (!mail) return next()
+
+    const content = session.stripped.content.trim()
+    const [keyword, ...args] = content.split(/\s+/)
+    const location = `${mail.account} -f "${mail.folder}"`
+    const replyActions: Record<string, string> = {
+      '已读': `mailbot.mark ${mail.uid} read ${location}`,
+      '未读': `mailbot.mark ${mail.uid} unread ${location}`,
+      '星标': `mailbot.mark ${mail.uid} flagged ${location}`,
+      '取消星标': `mailbot.mark ${mail.uid} unflagged ${location}`,
+      '删除': `mailbot.delete ${mail.uid} ${location}`,
+      '移动': args.length ? `mailbot.move ${mail.uid} ${args[0]} ${location}` : '',
+      '查看': `mailbot.show ${mail.uid} ${location}`
+    }
+
+    const command = replyActions[keyword]
+    if (!command) return next()
+
+    // 通过执行指令完成操作，权限检查由指令系统处理
+    return session.execute(command)
+  }, true)
+
+  // 已配置 SMTP 的账户的发信器
+  const senders = new Map<string, MailSender>()
+  for (const account of config.imap) {
+    if (canSend(account) && !senders.has(account.name)) {
+      senders.set(account.name, createMailSender(account, redactLog))
+    }
+  }
+
+  // 选择用于发信的账户：未指定时使用第一个配置了 SMTP 的账户
+  const selectSender = (session: Session, name?: string): ImapAccount | string => {
+    const selected = selectAccessible(session, name)
+    if (typeof selected === 'string') return selected
+
+    const monitor = selected.find(monitor => senders.has(monitor.account.name))
+    if (!monitor) {
+      return name ? `❌ 账户 ${name} 未配置 SMTP 发信` : '❌ 没有配置了 SMTP 发信的账户'
+    }
+    return monitor.account
+  }
+
+  // 将已发送的邮件保存到已发送文件夹，优先使用监听中的 IMAP 连接
+  const saveToSent = async (account: ImapAccount, raw: Buffer) => {
+    const mailbox = account.smtp.sentFolder
+    if (!mailbox) return
+
+    const append = (imap: Imap) => new Promise<void>((resolve, reject) => {
+      imap.append(raw, { mailbox, flags: ['\\Seen'] }, err => err ? reject(err) : resolve())
+    })
+
+    const monitor = [...monitors.values()].find(monitor => monitor.account === account && monitor.imap && !monitor.downSince)
+    if (monitor) return append(monitor.imap)
+    return withImap(account, append)
+  }
+
+  // 发送邮件并保存到已发送文件夹，返回命令回复
+  const sendMail = async (account: ImapAccount, mail: OutgoingMail): Promise<string> => {
+    try {
+      const sent = await senders.get(account.name).send(mail)
+      let result = `📤 邮件已发送 [${account.name}]\n` +
+        `📮 收件人: ${mail.to}\n` +
+        `📋 主题: ${redactChat(mail.subject)}`
+      if (sent.rejected.length) {
+        result += `\n⚠️ 被拒绝的收件人: ${sent.rejected.join(', ')}`
+      }
+
+      try {
+        await saveToSent(account, sent.raw)
+      } catch (error) {
+        logger.warn(`[${account.name}] 保存到已发送文件夹失败:`, error.message)
+        result += `\n⚠️ 保存到已发送文件夹失败: ${error.message}`
+      }
+      return result
+    } catch (error) {
+      logger.error(`[${account.name}] 发送邮件失败:`, error)
+      return `❌ 发送邮件失败: ${error.message}`
+    }
+  }
+
+  // 正文为空时提示用户在聊天中补充
+  const promptBody = async (session: Session) => {
+    await session.send('✏️ 请在 60 秒内发送邮件正文')
+    return (await session.prompt(60000))?.trim()
+  }
+
+  // 注册发送邮件命令
+  ctx.command('mailbot.send <to:string> <subject:string> [body:text]', '发送邮件', { authority: config.actionAuthority })
+    .option('account', '-a <account:string> 使用指定账户发信')
+    .example('mailbot.send someone@example.com 你好 这是邮件正文')
+    .example('mailbot.send someone@example.com "会议 通知" -a work   # 之后按提示发送正文')
+    .action(async ({ session, options }, to, subject, body) => {
+      if (!to || !subject) return '❌ 请输入收件人和主题'
+
+      const account = selectSender(session, options.account)
+      if (typeof account === 'string') return account
+
+      body ||= await promptBody(session)
+      if (!body) return '已取消发送'
+
+      await recordAudit(ctx, getActor(session), { action: 'send', account: account.name, folder: '', uid: 0, detail: `${to}: ${subject}` })
+
+      return sendMail(account, { to, subject, text: body })
+    })
+
+  // 注册回复邮件命令
+  ctx.command('mailbot.reply <uid:posint> [body:text]', '回复邮件', { authority: config.actionAuthority })
+    .option('account', '-a <account:string> 邮件所在账户')
+    .option('folder', '-f <folder:string> 邮件所在文件夹')
+    .example('mailbot.reply 123 收到，谢谢')
+    .action(async ({ session, options }, uid, body) => {
+      if (!uid) return '❌ 请输入邮件 UID'
+
+      const selected = selectAccessible(session, options.account)
+      if (typeof selected === 'string') return selected
+
+      const { account, mailboxName } = selected[0]
+      if (!senders.has(account.name)) return `❌ 账户 ${account.name} 未配置 SMTP 发信`
+
+      let headers: ReturnType<typeof parseMailHeaders>
+      try {
+        headers = await withImap(account, async imap => (await fetchMailByUid(imap, options.folder || mailboxName, uid)).headers)
+      } catch (error) {
+        return `❌ 获取邮件失败: ${error.message}`
+      }
+
+      body ||= await promptBody(session)
+      if (!body) return '已取消回复'
+
+      await recordAudit(ctx, getActor(session), { action: 'reply', account: account.name, folder: options.folder || mailboxName, uid, detail: headers.replyTo || headers.from })
+
+      // 回复到 Reply-To（没有时回复发件人），并接上原邮件的会话
+      return sendMail(account, {
+        to: headers.replyTo || headers.from,
+        subject: /^re:/i.test(headers.subject) ? headers.subject : `Re: ${headers.subject}`,
+        text: body,
+        inReplyTo: headers.messageId || undefined,
+        references: [...headers.references, headers.messageId].filter(Boolean)
+      })
+    })
+
+  // 注册邮件查看命令
+  ctx.command('mailbot.show <uid:posint> [account:string]', '查看指定邮件的内容', { authority: config.viewAuthority })
+    .alias('mailbot.read')
+    .option('raw', '-r 显示邮件原始源码')
+    .option('html', '--html 显示 HTML 正文')
+    .option('headers', '-H 显示完整邮件头')
+    .option('page', '-p <page:posint> 查看指定页', { fallback: 1 })
+    .option('folder', '-f <folder:string> 邮件所在文件夹')
+    .example('mailbot.show 123            # 查看清理后的正文')
+    .example('mailbot.show 123 --headers  # 查看完整邮件头')
+    .example('mailbot.show 123 -r -p 2    # 查看原始源码的第 2 页')
+    .action(async ({ session, options }, uid, name) => {
+      if (!uid) return '❌ 请输入邮件 UID'
+
+      const selected = selectAccessible(session, name)
+      if (typeof selected === 'string') return selected
+
+      const { account, mailboxName } = selected[0]
+      const mailbox = options.folder || mailboxName
+      await recordAudit(ctx, getActor(session), { action: 'show', account: account.name, folder: mailbox, uid })
+      let imap: Imap | null = null
+      let output: string
+
+      try {
+        imap = await connectToImap(account)
+        const msg = await fetchMailByUid(imap, mailbox, uid)
+        const source: Buffer = msg.source || Buffer.alloc(0)
+
+        if (options.raw) {
+          output = source.toString('utf8')
+        } else if (options.headers) {
+          // 邮件头在第一个空行之前
+          output = source.toString('utf8').split(/\r?\n\r?\n/)[0]
+        } else {
+          const parsed = await parseEmailContent(source)
+          if (options.html) {
+            output = parsed.html || '(该邮件没有 HTML 正文)'
+          } else {
+            output = `📧 UID ${uid} [${account.name}]\n` +
+              `📤 发件人: ${formatSender(parsed, msg.headers.from)}\n` +
+              `📥 收件人: ${msg.headers.to}\n` +
+              `📋 主题: ${parsed.subject}\n` +
+              `📅 时间: ${msg.headers.date}` +
+              (parsed.attachments.length ? `\n📎 附件: ${parsed.attachments.length} 个` : '') +
+              `\n\n${cleanEmailContent(parsed.text) || '(正文为空)'}`
+          }
+        }
+      } catch (error) {
+        logger.error(`[${account.name}] 获取邮件失败:`, error)
+
+        // 服务器上已删除或无法连接时，使用本地存档（只有清理后的正文）
+        const archived = config.archive && await findArchivedMail(ctx, account.name, mailbox, uid)
+        if (!archived) return `❌ 获取邮件失败: ${error.message}`
+        if (options.raw || options.html || options.headers) {
+          return `❌ 获取邮件失败: ${error.message}\n🗄️ 本地存档只保存了清理后的正文，请去掉 --raw/--html/--headers 查看`
+        }
+        output = `🗄️ 无法从服务器获取邮件，以下为本地存档 (${error.message})\n\n` +
+          `📧 UID ${uid} [${account.name}]\n` +
+          `📤 发件人: ${archived.sender}\n` +
+          `📥 收件人: ${archived.recipient}\n` +
+          `📋 主题: ${archived.subject}\n` +
+          `📅 时间: ${formatDate(archived.date, config.locale, config.timezone)}` +
+          `\n\n${archived.text || '(正文为空)'}`
       } finally {
-        // 确保关闭IMAP连接
         if (imap) {
           try {
             imap.end()
@@ -970,8 +2572,121 @@ export function apply(ctx: Context, config: Config) {
           }
         }
       }
+
+      const pages = paginate(redactChat(output), SHOW_PAGE_SIZE)
+      if (pages.length === 1) return pages[0]
+
+      // 支持合并转发的平台将全部内容作为一条合并转发消息发送
+      if (FORWARD_PLATFORMS.includes(session.platform)) {
+        return h('message', { forward: true }, pages.map(page => h('message', {}, page)))
+      }
+
+      const page = Math.min(options.page, pages.length)
+      return pages[page - 1] + `\n\n📄 第 ${page}/${pages.length} 页` +
+        (page < pages.length ? `，使用 -p ${page + 1} 查看下一页` : '')
     })
 
+  // 注册附件查看和下载命令
+  ctx.command('mailbot.attachments <uid:posint> [index:posint]', '查看邮件附件，指定序号时下载该附件', { authority: config.viewAuthority })
+    .option('account', '-a <account:string> 邮件所在账户')
+    .option('folder', '-f <folder:string> 邮件所在文件夹')
+    .example('mailbot.attachments 123           # 列出 UID 123 的附件')
+    .example('mailbot.attachments 123 2        # 下载第 2 个附件')
+    .example('mailbot.attachments 123 -a work   # 列出账户 work 中 UID 123 的附件')
+    .action(async ({ session, options }, uid, index) => {
+      if (!uid) return '❌ 请输入邮件 UID'
+
+      const selected = selectAccessible(session, options.account)
+      if (typeof selected === 'string') return selected
+
+      const { account, mailboxName } = selected[0]
+      const mailbox = options.folder || mailboxName
+      await recordAudit(ctx, getActor(session), { action: 'attachments', account: account.name, folder: mailbox, uid, detail: index ? `#${index}` : '' })
+      let imap: Imap | null = null
+
+      try {
+        session.send(`📎 正在获取邮件 UID ${uid} 的附件...`)
+        imap = await connectToImap(account)
+        const msg = await fetchMailByUid(imap, mailbox, uid)
+        const { subject, attachments } = await parseEmailContent(msg.source || Buffer.alloc(0))
+
+        if (attachments.length === 0) {
+          return `📭 邮件「${redactChat(subject)}」没有附件`
+        }
+
+        if (!index) {
+          return `📎 邮件「${redactChat(subject)}」的附件 (${attachments.length} 个):\n` + attachments
+            .map((attachment, i) => `${i + 1}. ${attachment.filename} (${attachment.contentType}, ${formatSize(attachment.size)})` +
+              (attachment.inline ? ' [内嵌]' : ''))
+            .join('\n') +
+            `\n💡 使用 mailbot.attachments ${uid} <序号>${options.account ? ` -a ${options.account}` : ''} 下载附件`
+        }
+
+        const attachment = attachments[index - 1]
+        if (!attachment) {
+          return `❌ 附件序号超出范围 (共 ${attachments.length} 个)`
+        }
+        if (attachment.size > attachmentOptions.maxSize) {
+          return `❌ 附件 ${attachment.filename} 大小为 ${formatSize(attachment.size)}，超过上限 ${formatSize(attachmentOptions.maxSize)}`
+        }
+
+        return attachmentElement(attachment)
+      } catch (error) {
+        logger.error(`[${account.name}] 获取附件失败:`, error)
+        return `❌ 获取附件失败: ${error.message}`
+      } finally {
+        if (imap) {
+          try {
+            imap.end()
+          } catch (err) {
+            logger.error('关闭IMAP连接失败:', err)
+          }
+        }
+      }
+    })
+
+  // 注册订阅和收件地址绑定命令
+  applySubscription(ctx, config)
+  applyBinding(ctx, config)
+
+  // 注册邮件摘要命令和定时发送
+  applyDigest(ctx, config, targetLimiter)
+
+  // 注册投递队列命令和定时重试
+  applyQueue(ctx, config, deliveryQueue, text => redactChat(text))
+
+  // 注册邮件认领命令
+  applyClaim(ctx, config, claims)
+
+  // 注册审计日志查询命令
+  applyAudit(ctx, config)
+
+  // 注册邮件存档清理和历史邮件查询命令
+  applyArchive(ctx, config, text => redactChat(text))
+
+  // 注册规则管理命令，试运行时按 UID 从邮箱加载邮件
+  applyRules(ctx, config, text => redactChat(text), async (session, name, uid) => {
+    const selected = selectAccessible(session, name)
+    if (typeof selected === 'string') throw new Error(selected)
+
+    const { account, mailboxName } = selected[0]
+    const imap = await connectToImap(account)
+    try {
+      const msg = await fetchMailByUid(imap, mailboxName, uid)
+      const parsedContent = await parseEmailContent(msg.source || Buffer.alloc(0))
+      const mail: RuleMail = {
+        account: account.name,
+        sender: msg.headers.from,
+        recipients: [msg.headers.to, ...extractRecipients(msg.headers)],
+        subject: msg.headers.subject,
+        body: parsedContent.text
+      }
+      return mail
+    } finally {
+      imap.end()
+    }
+  })
+
   // 保留原有的测试中间件
   ctx.middleware((session, next) => {
     if (session.content === '天王盖地虎') {
@@ -981,29 +2696,69 @@ export function apply(ctx: Context, config: Config) {
     }
   })
 
+  // 为每个配置完整的账户创建监听器
+  for (const account of config.imap) {
+    if (!isConfigured(account)) {
+      logger.warn(`邮箱账户 ${account.name} 配置未完成，已跳过`)
+      continue
+    }
+    if ([...monitors.values()].some(monitor => monitor.account.name === account.name)) {
+      logger.warn(`邮箱账户名称重复: ${account.name}，已跳过`)
+      continue
+    }
+
+    // 每个文件夹一个监听器（IMAP 连接同一时间只能监听一个文件夹）
+    const folders = new Set(account.folders?.length ? account.folders : ['INBOX'])
+    for (const folder of folders) {
+      const monitor = createMailMonitor(account, folder, {
+        mode: config.monitorMode,
+        pollInterval: config.pollInterval,
+        reconnectDelay: config.reconnectDelay,
+        reconnectMaxDelay: config.reconnectMaxDelay,
+        reconnectMaxRetries: config.reconnectMaxRetries,
+        trace
+      }, handleNewMail)
+      monitors.set(monitor.name, monitor)
+    }
+  }
+
   // 插件启动时检查配置和自动启动监听
-  if (isConfigured()) {
-    logger.info('Mailbot 插件已启动，邮箱配置已完成')
+  if (monitors.size > 0) {
+    logger.info(`Mailbot 插件已启动，已配置 ${monitors.size} 个邮箱文件夹监听`)
 
     // 默认启动邮件监听
     logger.info('自动启动邮件监听...')
     setTimeout(async () => {
-      try {
-        await startMailMonitor(config.imap, handleNewMail)
-        logger.info('邮件监听自动启动成功')
-      } catch (error) {
-        logger.error('邮件监听自动启动失败:', error)
+      for (const monitor of monitors.values()) {
+        try {
+          await startMailMonitor(monitor)
+          logger.info(`[${monitor.name}] 邮件监听自动启动成功`)
+        } catch (error) {
+          logger.error(`[${monitor.name}] 邮件监听自动启动失败:`, error)
+        }
       }
     }, 5000) // 延迟5秒启动，确保插件完全加载
   } else {
     logger.warn('Mailbot 插件已启动，但邮箱配置未完成，请在配置中设置 IMAP 服务器信息')
   }
 
+  // 每分钟检查一次账户健康状态
+  ctx.setInterval(() => {
+    checkHealth().catch(error => logger.error('检查账户健康状态失败:', error))
+  }, 60000)
+
   // 插件卸载时清理资源
   ctx.on('dispose', () => {
-    if (getMonitorStatus().isMonitoring) {
-      logger.info('插件卸载，停止邮件监听')
-      stopMailMonitor()
+    renderer.dispose()
+    for (const sender of senders.values()) {
+      sender.dispose()
+    }
+
+    for (const monitor of monitors.values()) {
+      if (getMonitorStatus(monitor).isMonitoring) {
+        logger.info(`[${monitor.account.name}] 插件卸载，停止邮件监听`)
+        stopMailMonitor(monitor)
+      }
     }
   })
-}
\ No newline at end of file
+}
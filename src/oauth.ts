@@ -0,0 +1,103 @@
+import { Logger, Schema } from 'koishi'
+
+// IMAP 认证方式：密码或 OAuth2（XOAUTH2）
+export type AuthMode = 'password' | 'xoauth2'
+
+// OAuth2 客户端设置，访问令牌通过刷新令牌获取
+export interface OAuth2Config {
+  clientId: string
+  clientSecret: string
+  refreshToken: string
+  tokenUrl: string
+  scope: string
+}
+
+export const OAuth2Config: Schema<OAuth2Config> = Schema.object({
+  clientId: Schema.string().description('客户端 ID').default(''),
+  clientSecret: Schema.string().role('secret').description('客户端密钥（公共客户端可留空）').default(''),
+  refreshToken: Schema.string().role('secret').description('刷新令牌').default(''),
+  tokenUrl: Schema.string().description('令牌端点（Gmail 为 https://oauth2.googleapis.com/token）')
+    .default('https://login.microsoftonline.com/common/oauth2/v2.0/token'),
+  scope: Schema.string().description('申请的权限范围（留空使用刷新令牌原有的范围）').default(''),
+}).description('OAuth2 设置（认证方式为 xoauth2 时使用）')
+
+// 需要 OAuth2 认证的账户信息
+export interface OAuth2Account {
+  name: string
+  user: string
+  oauth?: OAuth2Config
+}
+
+interface CachedToken {
+  accessToken: string
+  expiresAt: number
+  refreshToken: string // 令牌端点可能返回新的刷新令牌
+}
+
+const logger = new Logger('mailbot')
+
+// 访问令牌在过期前提前刷新的时间
+const REFRESH_MARGIN = 60 * 1000
+
+// 按账户缓存的访问令牌和进行中的刷新请求
+const tokens = new WeakMap<OAuth2Account, CachedToken>()
+const refreshing = new WeakMap<OAuth2Account, Promise<string>>()
+
+// 判断 OAuth2 设置是否完整
+export function isOAuth2Configured(account: OAuth2Account): boolean {
+  return !!(account.oauth?.clientId && account.oauth.refreshToken && account.oauth.tokenUrl)
+}
+
+// 通过刷新令牌向令牌端点请求新的访问令牌
+async function requestAccessToken(account: OAuth2Account): Promise<string> {
+  const { oauth } = account
+  const refreshToken = tokens.get(account)?.refreshToken || oauth.refreshToken
+  const body = new URLSearchParams({
+    grant_type: 'refresh_token',
+    client_id: oauth.clientId,
+    refresh_token: refreshToken,
+  })
+  if (oauth.clientSecret) body.set('client_secret', oauth.clientSecret)
+  if (oauth.scope) body.set('scope', oauth.scope)
+
+  const response = await fetch(oauth.tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body,
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok || !data.access_token) {
+    throw new Error(`刷新访问令牌失败: ${data.error_description || data.error || `HTTP ${response.status}`}`)
+  }
+
+  tokens.set(account, {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + (Number(data.expires_in) || 3600) * 1000,
+    refreshToken: data.refresh_token || refreshToken,
+  })
+  logger.info(`[${account.name}] 🔑 已刷新 OAuth2 访问令牌，${Number(data.expires_in) || 3600} 秒后过期`)
+  return data.access_token
+}
+
+// 获取访问令牌：缓存的令牌即将过期或 force 为 true 时刷新，同一账户同时只发起一个刷新请求
+export async function getAccessToken(account: OAuth2Account, force = false): Promise<string> {
+  const cached = tokens.get(account)
+  if (!force && cached && cached.expiresAt - REFRESH_MARGIN > Date.now()) {
+    return cached.accessToken
+  }
+
+  if (!refreshing.has(account)) {
+    refreshing.set(account, requestAccessToken(account).finally(() => refreshing.delete(account)))
+  }
+  return refreshing.get(account)
+}
+
+// 生成 XOAUTH2 认证字符串
+export function buildXOAuth2(user: string, accessToken: string): string {
+  return Buffer.from(`user=${user}\x01auth=Bearer ${accessToken}\x01\x01`).toString('base64')
+}
+
+// 判断是否为认证失败（令牌过期或被撤销）
+export function isAuthFailure(error: any): boolean {
+  return error?.textCode === 'AUTHENTICATIONFAILED' || error?.source === 'authentication'
+}
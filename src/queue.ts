@@ -0,0 +1,260 @@
+import { Context, Fragment, h, Logger, Session } from 'koishi'
+import { Config } from '.'
+import { canAccess } from './access'
+import { getActor } from './audit'
+import { DeliveryTarget, describeTarget, sendToTarget } from './delivery'
+import { formatDate } from './template'
+
+declare module 'koishi' {
+  interface Tables {
+    mailbot_delivery: QueuedDelivery
+  }
+}
+
+// 投递状态：pending 等待（重新）发送，delivered 已发送，dead 多次重试失败后放弃
+export type DeliveryStatus = 'pending' | 'delivered' | 'dead'
+
+// 投递队列记录：一封邮件发送到一个目标为一条记录
+export interface QueuedDelivery extends DeliveryTarget {
+  id: number
+  account: string
+  folder: string
+  uidValidity: number
+  uid: number
+  messageId: string
+  subject: string
+  contents: string[] // 序列化后的消息元素，每项为一条消息
+  markRead: boolean // 规则要求标记已读
+  moveTo: string // 全部目标处理完毕后移动到的文件夹
+  held: number // 同一封邮件暂缓发送（免打扰、摘要或限流）的目标数
+  status: DeliveryStatus
+  attempts: number
+  nextAttemptAt: Date
+  lastError: string
+  createdAt: Date
+}
+
+// 待投递的邮件信息
+export type DeliveryMail = Pick<QueuedDelivery, 'account' | 'folder' | 'uidValidity' | 'uid' | 'messageId' | 'subject' | 'markRead' | 'moveTo' | 'held'>
+
+export interface DeliveryQueue {
+  enqueue(target: DeliveryTarget, mail: DeliveryMail, contents: Fragment[]): Promise<QueuedDelivery>
+  attempt(item: QueuedDelivery): Promise<boolean>
+  processDue(): Promise<void>
+  isSending(id: number): boolean
+}
+
+const logger = new Logger('mailbot')
+
+// 每条消息在队列中保存的最大长度，超出时省略其中内嵌的图片和附件
+const MAX_STORED_LENGTH = 64 * 1024
+
+// 注册投递队列数据表
+export function extendQueue(ctx: Context) {
+  ctx.model.extend('mailbot_delivery', {
+    id: 'unsigned',
+    platform: 'string',
+    selfId: 'string',
+    channelId: 'string',
+    guildId: 'string',
+    userId: 'string',
+    account: 'string',
+    folder: 'string',
+    uidValidity: 'unsigned',
+    uid: 'unsigned',
+    messageId: 'string',
+    subject: 'string',
+    contents: 'json',
+    markRead: 'boolean',
+    moveTo: 'string',
+    held: 'unsigned',
+    status: 'string',
+    attempts: 'unsigned',
+    nextAttemptAt: 'timestamp',
+    lastError: 'text',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+  })
+}
+
+// 第 n 次失败后的重试延迟：指数退避，最长 1 小时
+function getRetryDelay(config: Config, attempts: number): number {
+  return Math.min(3600, config.retryDelay * 2 ** (attempts - 1)) * 1000
+}
+
+// 队列中保存的消息内容：每个目标各存一份，过长的消息只保留文字，内嵌的媒体数据替换为提示（首次发送仍使用完整内容）
+function compactContents(contents: string[]): string[] {
+  return contents.map(content => content.length <= MAX_STORED_LENGTH ? content : h.transform(content, (element) => {
+    if (!String(element.attrs.src || '').startsWith('data:')) return true
+    return element.type === 'img' ? '[图片过大，重试时已省略]' : '[附件过大，重试时已省略]'
+  }))
+}
+
+// 创建投递队列，onSent 在每条消息发送后调用，onSettled 在一条记录投递成功或放弃后调用，redact 为日志的脱敏函数
+export function createDeliveryQueue(
+  ctx: Context,
+  config: Config,
+  onSent: (item: QueuedDelivery, messageIds: string[]) => void,
+  onSettled: (item: QueuedDelivery) => Promise<void>,
+  redact: (text: string) => string,
+): DeliveryQueue {
+  let processing = false
+  // 正在发送的记录，定时重试、首次发送和手动重试不会同时发送同一条记录
+  const sending = new Set<number>()
+
+  // 发送一条记录剩余的消息，并保存发送结果
+  const send = async (item: QueuedDelivery) => {
+    item.attempts++
+    try {
+      // 逐条发送，已发送的消息从记录中移除，重试时只发送剩余的消息
+      while (item.contents.length) {
+        onSent(item, await sendToTarget(ctx, item, item.contents[0]))
+        item.contents = item.contents.slice(1)
+      }
+      item.status = 'delivered'
+      item.lastError = ''
+      logger.info(`📢 邮件通知已发送到 ${describeTarget(item)}: ${redact(item.subject)}`)
+    } catch (error) {
+      item.lastError = error.message
+      if (item.attempts >= config.retryMaxAttempts) {
+        item.status = 'dead'
+        logger.error(`❌ 发送邮件通知到 ${describeTarget(item)} 连续失败 ${item.attempts} 次，已放弃:`, error.message)
+      } else {
+        item.nextAttemptAt = new Date(Date.now() + getRetryDelay(config, item.attempts))
+        logger.warn(`❌ 发送邮件通知到 ${describeTarget(item)} 失败，将于 ${formatDate(item.nextAttemptAt, config.locale, config.timezone)} 重试:`, error.message)
+      }
+    }
+
+    await ctx.database.set('mailbot_delivery', { id: item.id }, {
+      contents: compactContents(item.contents),
+      status: item.status,
+      attempts: item.attempts,
+      nextAttemptAt: item.nextAttemptAt,
+      lastError: item.lastError,
+    })
+    if (item.status !== 'pending') await onSettled(item)
+    return item.status === 'delivered'
+  }
+
+  const queue: DeliveryQueue = {
+    // 加入队列后由调用方立即发送一次，定时重试在 retryDelay 之后才会处理这条记录
+    async enqueue(target, mail, contents) {
+      const serialized = contents.map(content => h.normalize(content).join(''))
+      const item = await ctx.database.create('mailbot_delivery', {
+        platform: target.platform,
+        selfId: target.selfId,
+        channelId: target.channelId,
+        guildId: target.guildId,
+        userId: target.userId,
+        ...mail,
+        contents: compactContents(serialized),
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: new Date(Date.now() + config.retryDelay * 1000),
+        lastError: '',
+        createdAt: new Date(),
+      })
+      // 首次发送使用完整的内容
+      return { ...item, contents: serialized }
+    },
+
+    async attempt(item) {
+      // 其他地方正在发送这条记录时跳过
+      if (sending.has(item.id)) return false
+      sending.add(item.id)
+      try {
+        // 取得发送权后重新读取记录，调用方持有的记录可能已被其他发送完成或放弃
+        const [current] = await ctx.database.get('mailbot_delivery', { id: item.id })
+        if (!current || current.status !== 'pending') return current?.status === 'delivered'
+        Object.assign(item, current, { contents: current.attempts ? current.contents : item.contents })
+        return await send(item)
+      } finally {
+        sending.delete(item.id)
+      }
+    },
+
+    async processDue() {
+      // 上一轮重试尚未结束时跳过，避免重复发送
+      if (processing) return
+      processing = true
+      try {
+        const items = await ctx.database.get('mailbot_delivery', {
+          status: 'pending',
+          nextAttemptAt: { $lte: new Date() },
+        })
+        for (const item of items) {
+          await queue.attempt(item)
+        }
+      } finally {
+        processing = false
+      }
+    },
+
+    isSending(id) {
+      return sending.has(id)
+    },
+  }
+  return queue
+}
+
+function formatQueueItem(item: QueuedDelivery, config: Config, redact: (text: string) => string): string {
+  const icon = item.status === 'dead' ? '💀' : item.status === 'delivered' ? '✅' : '⏳'
+  const source = item.folder === 'INBOX' ? item.account : `${item.account}/${item.folder}`
+  let line = `#${item.id} ${icon} ${describeTarget(item)} ← [${source}] UID ${item.uid} ${redact(item.subject)}\n` +
+    `   尝试 ${item.attempts} 次`
+  if (item.status === 'pending') line += `，下次: ${formatDate(item.nextAttemptAt, config.locale, config.timezone)}`
+  if (item.lastError) line += `\n   ❗ ${item.lastError}`
+  return line
+}
+
+// 当前用户有权查看的账户名称
+function getAccessibleAccounts(config: Config, session: Session): string[] {
+  return config.imap.filter(account => canAccess(account, getActor(session))).map(account => account.name)
+}
+
+// 注册投递队列命令和定时重试，redact 为聊天输出的脱敏函数
+export function applyQueue(ctx: Context, config: Config, queue: DeliveryQueue, redact: (text: string) => string) {
+  extendQueue(ctx)
+
+  ctx.setInterval(() => {
+    queue.processDue().catch(error => logger.error('处理投递队列失败:', error))
+  }, 30000)
+
+  ctx.command('mailbot.queue [status:string]', '查看通知投递队列', { authority: config.manageAuthority })
+    .example('mailbot.queue        # 查看等待重试和已放弃的投递')
+    .example('mailbot.queue dead   # 只查看已放弃的投递')
+    .action(async ({ session }, status) => {
+      if (status && !['pending', 'dead'].includes(status)) return '❌ 状态无效，可选: pending / dead'
+
+      // 只列出当前用户有权查看的账户的投递
+      const items = await ctx.database.get('mailbot_delivery', {
+        account: getAccessibleAccounts(config, session),
+        status: status ? status as DeliveryStatus : { $ne: 'delivered' },
+      })
+      if (!items.length) return '📭 投递队列为空'
+      return `📤 投递队列 (${items.length} 条):\n` + items.map(item => formatQueueItem(item, config, redact)).join('\n')
+    })
+
+  ctx.command('mailbot.retry <id:posint>', '立即重新发送投递队列中的通知', { authority: config.manageAuthority })
+    .action(async ({ session }, id) => {
+      if (!id) return '❌ 请输入投递记录编号'
+
+      const [item] = await ctx.database.get('mailbot_delivery', { id })
+      if (!item) return `❌ 未找到投递记录 #${id}`
+      if (!getAccessibleAccounts(config, session).includes(item.account)) return `🔒 你没有权限查看账户 ${item.account} 的邮件`
+      if (item.status === 'delivered') return `✅ 投递记录 #${id} 已发送`
+      if (queue.isSending(id)) return `⏳ 投递记录 #${id} 正在发送中`
+
+      // 已放弃的记录重新计算重试次数
+      if (item.status === 'dead') {
+        item.status = 'pending'
+        item.attempts = 0
+        await ctx.database.set('mailbot_delivery', { id }, { status: 'pending', attempts: 0 })
+      }
+      const delivered = await queue.attempt(item)
+      return delivered
+        ? `✅ 投递记录 #${id} 已发送到 ${describeTarget(item)}`
+        : `❌ 重新发送失败: ${item.lastError}`
+    })
+}
@@ -0,0 +1,54 @@
+import { Logger, Schema } from 'koishi'
+
+// 内置的脱敏规则：密码和令牌、身份证号、手机号、重置密码/登录等敏感链接
+export type RedactRule = 'password' | 'idNumber' | 'phone' | 'resetLink'
+
+// 自定义脱敏规则，replacement 支持 $1 等捕获组引用
+export interface RedactPattern {
+  pattern: string
+  replacement: string
+}
+
+export const RedactPattern: Schema<RedactPattern> = Schema.object({
+  pattern: Schema.string().description('匹配敏感内容的正则').required(),
+  replacement: Schema.string().description('替换为（支持 $1 引用捕获组）').default('******'),
+})
+
+// 脱敏函数，包含 exempt 中任一值的匹配内容保持原样
+export type Redactor = (text: string, exempt?: string[]) => string
+
+// 输出原始邮件内容的调试日志，只在开启 verbose 时提供
+export type Trace = (label: string, content: string) => void
+
+const BUILTIN_RULES: Record<RedactRule, [RegExp, string]> = {
+  password: [/((?:密码|口令|password|passwd|pwd|token|secret|api[ _-]?key)\s*(?:是|为)?\s*[:：=]\s*)\S+/gi, '$1******'],
+  idNumber: [/(?<![\dA-Za-z])(\d{6})\d{8}(\d{3}[\dXx])(?![\dA-Za-z])/g, '$1********$2'],
+  phone: [/(?<!\d)(1[3-9]\d)\d{4}(\d{4})(?!\d)/g, '$1****$2'],
+  resetLink: [/https?:\/\/[^\s<>"')]*(?:reset|password|passwd|token|verify|confirm|activate|magic|signin|login|auth)[^\s<>"')]*/gi, '[链接已隐藏]'],
+}
+
+const logger = new Logger('mailbot')
+
+// 创建脱敏函数，无效的自定义正则会被跳过
+export function createRedactor(rules: RedactRule[], patterns: RedactPattern[]): Redactor {
+  const compiled: [RegExp, string][] = rules
+    .filter(rule => rule in BUILTIN_RULES)
+    .map(rule => BUILTIN_RULES[rule])
+  for (const { pattern, replacement } of patterns) {
+    try {
+      compiled.push([new RegExp(pattern, 'gi'), replacement ?? '******'])
+    } catch (error) {
+      logger.warn(`脱敏规则的正则无效: ${pattern}`)
+    }
+  }
+
+  return (text, exempt = []) => {
+    if (!text) return text
+    const values = exempt.filter(Boolean)
+    return compiled.reduce((result, [regexp, replacement]) => result.replace(regexp, (match) => {
+      if (values.some(value => match.includes(value))) return match
+      // 对匹配内容单独再替换一次，以便展开 $1 等捕获组引用
+      return match.replace(new RegExp(regexp.source, regexp.flags.replace('g', '')), replacement)
+    }), text)
+  }
+}
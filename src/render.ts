@@ -0,0 +1,76 @@
+import { Logger } from 'koishi'
+import puppeteer, { Browser } from 'puppeteer'
+import { EmailAttachment } from '.'
+
+// 渲染时机：总是渲染、只渲染没有纯文本正文的 HTML 邮件、从不渲染
+export type RenderMode = 'always' | 'html-only' | 'never'
+
+export interface Renderer {
+  render(html: string, attachments?: EmailAttachment[]): Promise<Buffer>
+  dispose(): Promise<void>
+}
+
+const logger = new Logger('mailbot')
+
+// 将 cid: 引用的内嵌图片替换为 data URI，其他远程资源在渲染时会被拦截
+function inlineCidImages(html: string, attachments: EmailAttachment[]): string {
+  return html.replace(/cid:([^"'\s)>]+)/gi, (match, cid: string) => {
+    const attachment = attachments.find(item => item.contentId === cid || item.contentId === `<${cid}>`)
+    if (!attachment) return match
+    return `data:${attachment.contentType};base64,${attachment.content.toString('base64')}`
+  })
+}
+
+// 创建 HTML 渲染器，浏览器在首次渲染时启动
+export function createRenderer(width: number): Renderer {
+  let browser: Promise<Browser> | null = null
+
+  const getBrowser = () => {
+    if (!browser) {
+      logger.info('🖥️ 启动无头浏览器...')
+      browser = puppeteer.launch({ headless: true }).catch((error) => {
+        browser = null
+        throw error
+      })
+    }
+    return browser
+  }
+
+  return {
+    async render(html, attachments = []) {
+      const page = await (await getBrowser()).newPage()
+      try {
+        // 沙箱化页面：禁用脚本、离线，并拦截除 data: 以外的所有请求
+        await page.setJavaScriptEnabled(false)
+        await page.setOfflineMode(true)
+        await page.setRequestInterception(true)
+        page.on('request', (request) => {
+          if (request.url().startsWith('data:')) {
+            request.continue()
+          } else {
+            request.abort()
+          }
+        })
+
+        await page.setViewport({ width, height: 600 })
+        await page.setContent(inlineCidImages(html, attachments), { waitUntil: 'load', timeout: 15000 })
+        const image = await page.screenshot({ type: 'png', fullPage: true })
+        logger.debug(`🖼️ 邮件渲染完成，图片大小: ${image.length} 字节`)
+        return Buffer.from(image)
+      } finally {
+        await page.close().catch(() => {})
+      }
+    },
+
+    async dispose() {
+      if (!browser) return
+      const current = browser
+      browser = null
+      try {
+        await (await current).close()
+      } catch (error) {
+        logger.warn('关闭无头浏览器失败:', error.message)
+      }
+    },
+  }
+}
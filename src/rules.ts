@@ -0,0 +1,327 @@
+import { Context, Logger, Schema, Session } from 'koishi'
+import { Config } from '.'
+import { DeliveryTarget, describeTarget, parseChannelTarget } from './delivery'
+import { extractAddress, globToRegExp } from './utils'
+
+declare module 'koishi' {
+  interface Tables {
+    mailbot_rule: StoredRule
+  }
+}
+
+// 邮件规则：匹配条件均为空时匹配所有邮件，多个条件需同时满足
+export interface RuleConfig {
+  name: string
+  account: string // 为空表示所有账户
+  sender: string
+  recipient: string
+  subject: string
+  body: string
+  mode: 'regex' | 'glob'
+  actions: string[]
+}
+
+export const RuleConfig: Schema<RuleConfig> = Schema.object({
+  name: Schema.string().description('规则名称').required(),
+  account: Schema.string().description('只对指定账户生效（留空为所有账户）').default(''),
+  sender: Schema.string().description('发件人匹配条件').default(''),
+  recipient: Schema.string().description('收件人匹配条件').default(''),
+  subject: Schema.string().description('主题匹配条件').default(''),
+  body: Schema.string().description('正文匹配条件').default(''),
+  mode: Schema.union(['regex', 'glob']).description('匹配方式：正则表达式或通配符').default('regex'),
+  actions: Schema.array(Schema.string()).description('动作列表，见使用说明').default([])
+})
+
+// 数据库中保存的运行时规则
+export interface StoredRule extends RuleConfig {
+  id: number
+  enabled: boolean
+  createdAt: Date
+}
+
+// 参与规则匹配的邮件字段
+export interface RuleMail {
+  account: string
+  sender: string
+  recipients: string[]
+  subject: string
+  body: string
+}
+
+// 规则匹配后合并得到的处理方式
+export interface RuleResult {
+  matched: string[]
+  drop: boolean
+  markRead: boolean
+  urgent: boolean
+  folder?: string
+  codePattern?: RegExp
+  template?: string
+  targets: DeliveryTarget[]
+}
+
+const logger = new Logger('mailbot')
+
+// 注册规则数据表
+export function extendRules(ctx: Context) {
+  ctx.model.extend('mailbot_rule', {
+    id: 'unsigned',
+    name: 'string',
+    account: 'string',
+    sender: 'string',
+    recipient: 'string',
+    subject: 'string',
+    body: 'text',
+    mode: 'string',
+    actions: 'list',
+    enabled: 'boolean',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+  })
+}
+
+// 解析投递目标：notify:平台:频道ID 或 notify:private:平台:用户ID
+function parseNotifyTarget(value: string): DeliveryTarget | null {
+  if (!value.startsWith('private:')) return parseChannelTarget(value)
+
+  const target = parseChannelTarget(value.slice(8))
+  if (!target) return null
+  return { ...target, channelId: '', guildId: '', userId: target.channelId }
+}
+
+// 校验动作格式，返回错误信息
+export function validateAction(action: string): string | undefined {
+  const index = action.indexOf(':')
+  const type = index < 0 ? action : action.slice(0, index)
+  const arg = index < 0 ? '' : action.slice(index + 1)
+
+  switch (type) {
+    case 'drop':
+    case 'read':
+    case 'urgent':
+      return
+    case 'notify':
+      if (!parseNotifyTarget(arg)) return `通知目标格式无效: ${action}`
+      return
+    case 'move':
+      if (!arg) return `缺少目标文件夹: ${action}`
+      return
+    case 'code':
+      if (!arg) return
+      try {
+        new RegExp(arg)
+      } catch (error) {
+        return `验证码正则无效: ${action}`
+      }
+      return
+    case 'template':
+      if (!arg) return `缺少模板内容: ${action}`
+      return
+    default:
+      return `未知动作: ${type}`
+  }
+}
+
+// 检查单个匹配条件，address 为 true 时通配符整串匹配邮件地址（去掉显示名称）
+function matchField(pattern: string, mode: RuleConfig['mode'], values: string[], address = false): boolean {
+  if (!pattern) return true
+  try {
+    if (mode === 'glob') {
+      const regexp = globToRegExp(pattern)
+      return values.some(value => regexp.test(address ? extractAddress(value) : value))
+    }
+    const regexp = new RegExp(pattern, 'i')
+    return values.some(value => regexp.test(value))
+  } catch (error) {
+    return false
+  }
+}
+
+// 检查规则是否匹配邮件
+export function matchRule(rule: RuleConfig, mail: RuleMail): boolean {
+  if (rule.account && rule.account !== mail.account) return false
+  return matchField(rule.sender, rule.mode, [mail.sender], true)
+    && matchField(rule.recipient, rule.mode, mail.recipients, true)
+    && matchField(rule.subject, rule.mode, [mail.subject])
+    && matchField(rule.body, rule.mode, [mail.body])
+}
+
+// 按顺序匹配所有规则，合并命中规则的动作
+export function evaluateRules(rules: RuleConfig[], mail: RuleMail): RuleResult {
+  const result: RuleResult = { matched: [], drop: false, markRead: false, urgent: false, targets: [] }
+
+  for (const rule of rules) {
+    if (!matchRule(rule, mail)) continue
+    result.matched.push(rule.name)
+
+    for (const action of rule.actions) {
+      const index = action.indexOf(':')
+      const type = index < 0 ? action : action.slice(0, index)
+      const arg = index < 0 ? '' : action.slice(index + 1)
+
+      if (type === 'drop') {
+        result.drop = true
+      } else if (type === 'read') {
+        result.markRead = true
+      } else if (type === 'urgent') {
+        result.urgent = true
+      } else if (type === 'move') {
+        result.folder = arg
+      } else if (type === 'template') {
+        result.template = arg
+      } else if (type === 'code' && arg) {
+        try {
+          result.codePattern = new RegExp(arg, 'i')
+        } catch (error) {
+          logger.warn(`规则 ${rule.name} 的验证码正则无效: ${arg}`)
+        }
+      } else if (type === 'notify') {
+        const target = parseNotifyTarget(arg)
+        if (target) result.targets.push(target)
+      }
+    }
+  }
+
+  return result
+}
+
+// 描述规则匹配结果，用于命令回复
+export function describeRuleResult(result: RuleResult): string {
+  if (!result.matched.length) return '未命中任何规则，将按默认方式投递'
+
+  const lines = [`命中规则: ${result.matched.join(', ')}`]
+  if (result.drop) lines.push('🚫 丢弃通知')
+  if (result.targets.length) lines.push(`📨 通知目标: ${result.targets.map(describeTarget).join(', ')}`)
+  if (result.urgent) lines.push('⚡ 紧急，不加入摘要')
+  if (result.markRead) lines.push('👁️ 标记为已读')
+  if (result.folder) lines.push(`📁 移动到: ${result.folder}`)
+  if (result.codePattern) lines.push(`🔑 验证码正则: ${result.codePattern.source}`)
+  if (result.template) lines.push(`📝 使用模板: ${result.template}`)
+  return lines.join('\n')
+}
+
+// 获取当前生效的规则：配置中的规则在前，数据库中启用的规则在后
+export async function getActiveRules(ctx: Context, config: Config): Promise<RuleConfig[]> {
+  const stored = await ctx.database.get('mailbot_rule', { enabled: true })
+  return [...config.rules, ...stored]
+}
+
+function describeRule(rule: StoredRule): string {
+  const conditions = (['sender', 'recipient', 'subject', 'body'] as const)
+    .filter(key => rule[key])
+    .map(key => `${key}=${rule[key]}`)
+  return `#${rule.id} ${rule.enabled ? '🟢' : '⚪'} ${rule.name}` +
+    (rule.account ? ` [${rule.account}]` : '') +
+    `\n   条件(${rule.mode}): ${conditions.join(' ') || '所有邮件'}` +
+    `\n   动作: ${rule.actions.join('; ') || '无'}`
+}
+
+// 注册规则管理命令，redact 为聊天输出的脱敏函数，loadMail 用于按 UID 加载邮件进行试运行
+export function applyRules(ctx: Context, config: Config, redact: (text: string) => string, loadMail: (session: Session, account: string | undefined, uid: number) => Promise<RuleMail>) {
+  extendRules(ctx)
+
+  for (const rule of config.rules) {
+    for (const action of rule.actions) {
+      const error = validateAction(action)
+      if (error) logger.warn(`配置规则 ${rule.name}: ${error}`)
+    }
+  }
+
+  ctx.command('mailbot.rule', '管理邮件过滤和路由规则', { authority: config.manageAuthority })
+
+  ctx.command('mailbot.rule.add <name:string>', '添加规则', { authority: config.manageAuthority })
+    .option('account', '-a <account:string> 只对指定账户生效')
+    .option('from', '--from <pattern:string> 发件人匹配条件')
+    .option('to', '--to <pattern:string> 收件人匹配条件')
+    .option('subject', '--subject <pattern:string> 主题匹配条件')
+    .option('body', '--body <pattern:string> 正文匹配条件')
+    .option('glob', '-g 使用通配符而不是正则表达式')
+    .option('action', '-x <actions:string> 动作列表，用分号分隔')
+    .option('disabled', '-d 添加后暂不启用')
+    .example('mailbot.rule.add 广告 --subject "退订|unsubscribe" -x "drop;read"')
+    .example('mailbot.rule.add github验证码 --from "*@github.com" -g -x "notify:onebot:123456"')
+    .action(async ({ options }, name) => {
+      if (!name) return '❌ 请输入规则名称'
+
+      const actions = (options.action || '').split(';').map(action => action.trim()).filter(Boolean)
+      if (!actions.length) return '❌ 请使用 -x 指定至少一个动作'
+      for (const action of actions) {
+        const error = validateAction(action)
+        if (error) return `❌ ${error}`
+      }
+
+      const rule = await ctx.database.create('mailbot_rule', {
+        name,
+        account: options.account || '',
+        sender: options.from || '',
+        recipient: options.to || '',
+        subject: options.subject || '',
+        body: options.body || '',
+        mode: options.glob ? 'glob' : 'regex',
+        actions,
+        enabled: !options.disabled,
+        createdAt: new Date(),
+      })
+
+      logger.info(`新增规则 #${rule.id}: ${rule.name}`)
+      return `✅ 规则已添加\n${describeRule(rule)}`
+    })
+
+  ctx.command('mailbot.rule.list', '查看规则列表', { authority: config.manageAuthority })
+    .action(async () => {
+      const rules = await ctx.database.get('mailbot_rule', {})
+      const lines: string[] = []
+      if (config.rules.length) {
+        lines.push(`⚙️ 配置规则 (${config.rules.length} 个): ${config.rules.map(rule => rule.name).join(', ')}`)
+      }
+      if (rules.length) {
+        lines.push(`📋 运行时规则 (${rules.length} 个):`, ...rules.map(describeRule))
+      }
+      return lines.join('\n') || '📭 暂无规则'
+    })
+
+  ctx.command('mailbot.rule.remove <id:posint>', '删除规则', { authority: config.manageAuthority })
+    .action(async (_, id) => {
+      if (!id) return '❌ 请输入规则编号'
+      const { removed } = await ctx.database.remove('mailbot_rule', { id })
+      return removed ? `🗑️ 规则 #${id} 已删除` : `❌ 未找到规则 #${id}`
+    })
+
+  ctx.command('mailbot.rule.enable <id:posint>', '启用规则', { authority: config.manageAuthority })
+    .action(async (_, id) => {
+      const { matched } = await ctx.database.set('mailbot_rule', { id }, { enabled: true })
+      return matched ? `🟢 规则 #${id} 已启用` : `❌ 未找到规则 #${id}`
+    })
+
+  ctx.command('mailbot.rule.disable <id:posint>', '停用规则', { authority: config.manageAuthority })
+    .action(async (_, id) => {
+      const { matched } = await ctx.database.set('mailbot_rule', { id }, { enabled: false })
+      return matched ? `⚪ 规则 #${id} 已停用` : `❌ 未找到规则 #${id}`
+    })
+
+  ctx.command('mailbot.rule.test <uid:posint> [account:string]', '用已有邮件试运行规则（包括未启用的规则）', { authority: config.manageAuthority })
+    .action(async ({ session }, uid, account) => {
+      if (!uid) return '❌ 请输入邮件 UID'
+
+      let mail: RuleMail
+      try {
+        session.send(`🔍 正在获取邮件 UID ${uid}...`)
+        mail = await loadMail(session, account, uid)
+      } catch (error) {
+        return `❌ 获取邮件失败: ${error.message}`
+      }
+
+      const stored = await ctx.database.get('mailbot_rule', {})
+      const lines = [
+        `📧 ${redact(mail.subject)}`,
+        `📤 ${mail.sender}`,
+        '',
+        ...config.rules.map(rule => `${matchRule(rule, mail) ? '✅' : '❌'} [配置] ${rule.name}`),
+        ...stored.map(rule => `${matchRule(rule, mail) ? '✅' : '❌'} #${rule.id} ${rule.name}${rule.enabled ? '' : ' (未启用)'}`),
+        '',
+        describeRuleResult(evaluateRules([...config.rules, ...stored], mail)),
+      ]
+      return lines.join('\n')
+    })
+}
@@ -0,0 +1,114 @@
+import { Logger, Schema } from 'koishi'
+import nodemailer, { Transporter } from 'nodemailer'
+import MailComposer from 'nodemailer/lib/mail-composer'
+import { ImapAccount } from '.'
+
+// 账户的 SMTP 发信设置，服务器地址为空时该账户不能发信
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean
+  user: string // 为空时使用 IMAP 用户名和密码
+  password: string
+  from: string // 为空时使用 IMAP 用户名
+  sentFolder: string
+  rejectUnauthorized: boolean
+}
+
+export const SmtpConfig: Schema<SmtpConfig> = Schema.object({
+  host: Schema.string().description('SMTP 服务器地址（留空则不启用发信）').default(''),
+  port: Schema.number().description('SMTP 服务器端口').default(465),
+  secure: Schema.boolean().description('是否直接使用 TLS 连接（端口 587/25 一般关闭，连接后自动 STARTTLS）').default(true),
+  user: Schema.string().description('SMTP 用户名（留空使用 IMAP 用户名和密码）').default(''),
+  password: Schema.string().role('secret').description('SMTP 密码').default(''),
+  from: Schema.string().description('发件人地址，如 "Bot <bot@example.com>"（留空使用 IMAP 用户名）').default(''),
+  sentFolder: Schema.string().description('保存已发送邮件的文件夹（留空则不保存）').default('Sent'),
+  rejectUnauthorized: Schema.boolean().description('是否验证服务器证书').default(false)
+}).description('SMTP 发信设置')
+
+// 待发送的邮件
+export interface OutgoingMail {
+  to: string
+  subject: string
+  text: string
+  inReplyTo?: string
+  references?: string[]
+}
+
+// 已发送的邮件，raw 为完整源码，用于保存到已发送文件夹
+export interface SentMail {
+  messageId: string
+  raw: Buffer
+  accepted: string[]
+  rejected: string[]
+}
+
+export interface MailSender {
+  send(mail: OutgoingMail): Promise<SentMail>
+  dispose(): void
+}
+
+const logger = new Logger('mailbot')
+
+// 判断账户是否配置了发信
+export function canSend(account: ImapAccount): boolean {
+  return !!account.smtp?.host
+}
+
+// 创建账户的发信器，SMTP 连接在首次发信时建立，redact 为日志的脱敏函数
+export function createMailSender(account: ImapAccount, redact: (text: string) => string): MailSender {
+  const { smtp } = account
+  let transporter: Transporter | null = null
+
+  const getTransporter = () => {
+    transporter ||= nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      // 未单独设置 SMTP 用户时沿用 IMAP 的认证方式，XOAUTH2 账户由 nodemailer 自动刷新访问令牌
+      auth: !smtp.user && account.auth === 'xoauth2' ? {
+        type: 'OAuth2',
+        user: account.user,
+        clientId: account.oauth.clientId,
+        clientSecret: account.oauth.clientSecret,
+        refreshToken: account.oauth.refreshToken,
+        accessUrl: account.oauth.tokenUrl
+      } : {
+        user: smtp.user || account.user,
+        pass: smtp.user ? smtp.password : account.password
+      },
+      tls: { rejectUnauthorized: smtp.rejectUnauthorized }
+    })
+    return transporter
+  }
+
+  return {
+    async send(mail) {
+      // 先生成完整源码，发送和保存到已发送文件夹使用同一份内容
+      const node = new MailComposer({
+        from: smtp.from || account.user,
+        to: mail.to,
+        subject: mail.subject,
+        text: mail.text,
+        inReplyTo: mail.inReplyTo,
+        references: mail.references
+      }).compile()
+      const raw = await node.build()
+      const messageId = node.messageId()
+
+      const info = await getTransporter().sendMail({ envelope: node.getEnvelope(), raw })
+      logger.info(`[${account.name}] 📤 邮件已发送: ${redact(mail.subject)} -> ${mail.to} (${messageId})`)
+      return {
+        messageId,
+        raw,
+        accepted: info.accepted.map(String),
+        rejected: info.rejected.map(String)
+      }
+    },
+
+    dispose() {
+      transporter?.close()
+      transporter = null
+    },
+  }
+}
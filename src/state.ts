@@ -0,0 +1,71 @@
+import { Context } from 'koishi'
+
+declare module 'koishi' {
+  interface Tables {
+    mailbot_state: MailState
+  }
+}
+
+// 邮件处理状态：processing 表示正在处理（或处理中途中断），failed 表示通知未能加入投递队列，
+// queued 表示已加入摘要，pending 表示通知在投递队列中等待重试，dead 表示部分目标多次重试失败后放弃
+export type MailStatus = 'processing' | 'delivered' | 'queued' | 'pending' | 'dead' | 'failed' | 'dropped' | 'unrouted'
+
+// 已处理邮件记录，以 账户 + 文件夹 + UIDVALIDITY + UID 为唯一键
+export interface MailState {
+  id: number
+  account: string
+  mailbox: string
+  uidValidity: number
+  uid: number
+  messageId: string
+  status: MailStatus
+  notifiedAt: Date
+  updatedAt: Date
+}
+
+// 注册邮件处理状态数据表
+export function extendMailState(ctx: Context) {
+  ctx.model.extend('mailbot_state', {
+    id: 'unsigned',
+    account: 'string',
+    mailbox: { type: 'string', initial: 'INBOX' },
+    uidValidity: 'unsigned',
+    uid: 'unsigned',
+    messageId: 'string',
+    status: 'string',
+    notifiedAt: 'timestamp',
+    updatedAt: 'timestamp',
+  }, {
+    autoInc: true,
+    unique: [['account', 'mailbox', 'uidValidity', 'uid']],
+  })
+}
+
+// 查找邮件的处理记录：优先按 文件夹 + UIDVALIDITY + UID 查找，找不到时按 Message-ID 查找（邮件可能被移动到其他文件夹）
+export async function findMailState(ctx: Context, account: string, mailbox: string, uidValidity: number, uid: number, messageId: string): Promise<MailState | undefined> {
+  const [state] = await ctx.database.get('mailbot_state', { account, mailbox, uidValidity, uid })
+  if (state || !messageId) return state
+
+  const [fallback] = await ctx.database.get('mailbot_state', { account, messageId })
+  return fallback
+}
+
+// 保存邮件的处理状态
+export async function saveMailState(ctx: Context, account: string, mailbox: string, uidValidity: number, uid: number, messageId: string, status: MailStatus): Promise<void> {
+  const now = new Date()
+  await ctx.database.upsert('mailbot_state', [{
+    account,
+    mailbox,
+    uidValidity,
+    uid,
+    messageId,
+    status,
+    updatedAt: now,
+    ...status === 'delivered' ? { notifiedAt: now } : {},
+  }], ['account', 'mailbox', 'uidValidity', 'uid'])
+}
+
+// 判断处理记录是否表示邮件已处理完毕（失败或中断的邮件需要重新处理）
+export function isSettled(state: MailState | undefined): boolean {
+  return !!state && state.status !== 'failed' && state.status !== 'processing'
+}
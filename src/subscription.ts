@@ -0,0 +1,151 @@
+import { Context, Logger, Session } from 'koishi'
+import { Config } from '.'
+import { DeliveryTarget, describeTarget } from './delivery'
+import { parseQuietHours } from './throttle'
+
+declare module 'koishi' {
+  interface Tables {
+    mailbot_subscription: Subscription
+  }
+}
+
+// 订阅记录：将频道或用户绑定到邮箱账户（及可选的过滤条件）
+export interface Subscription extends DeliveryTarget {
+  id: number
+  account: string // 为空表示订阅所有账户
+  filter: string // 匹配发件人和主题的正则表达式，为空表示不过滤
+  template: string // 该订阅使用的通知模板，为空表示使用默认模板
+  quietHours: string // 免打扰时段，如 23:00-07:00；为空表示使用默认时段，none 表示不启用
+  createdAt: Date
+}
+
+const logger = new Logger('mailbot')
+
+// 注册订阅数据表
+export function extendSubscription(ctx: Context) {
+  ctx.model.extend('mailbot_subscription', {
+    id: 'unsigned',
+    platform: 'string',
+    selfId: 'string',
+    channelId: 'string',
+    guildId: 'string',
+    userId: 'string',
+    account: 'string',
+    filter: 'string',
+    template: 'text',
+    quietHours: 'string',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+  })
+}
+
+// 检查邮件是否符合订阅条件
+export function matchSubscription(sub: Subscription, account: string, headers: { from: string; subject: string }): boolean {
+  if (sub.account && sub.account !== account) return false
+  if (!sub.filter) return true
+
+  try {
+    return new RegExp(sub.filter, 'i').test(`${headers.from}\n${headers.subject}`)
+  } catch (error) {
+    logger.warn(`订阅 #${sub.id} 的过滤条件无效: ${sub.filter}`)
+    return false
+  }
+}
+
+// 获取匹配该邮件的所有订阅
+export async function getSubscribers(ctx: Context, account: string, headers: { from: string; subject: string }): Promise<Subscription[]> {
+  const subs = await ctx.database.get('mailbot_subscription', {
+    account: { $in: ['', account] },
+  })
+  return subs.filter(sub => matchSubscription(sub, account, headers))
+}
+
+// 根据会话确定订阅目标：私聊或指定 private 时订阅到用户，否则订阅到当前频道
+function getTarget(session: Session, isPrivate: boolean): DeliveryTarget {
+  const base = { platform: session.platform, selfId: session.selfId }
+  if (session.isDirect || isPrivate) {
+    return { ...base, channelId: '', guildId: '', userId: session.userId }
+  }
+  return { ...base, channelId: session.channelId, guildId: session.guildId || '', userId: '' }
+}
+
+// 注册订阅相关命令
+export function applySubscription(ctx: Context, config: Config) {
+  extendSubscription(ctx)
+
+  ctx.command('mailbot.subscribe [account:string]', '订阅邮件通知到当前频道或用户', { authority: config.manageAuthority })
+    .option('filter', '-f <filter:string> 发件人/主题过滤正则')
+    .option('private', '-p 订阅到自己的私聊')
+    .option('template', '-t <template:string> 使用自定义通知模板')
+    .option('quiet', '-q <range:string> 免打扰时段，如 23:00-07:00（none 为不启用）')
+    .example('mailbot.subscribe               # 当前频道订阅所有账户')
+    .example('mailbot.subscribe work -p       # 私聊订阅账户 work')
+    .example('mailbot.subscribe -f github     # 只接收发件人或主题包含 github 的邮件')
+    .example('mailbot.subscribe -t "{fromName}: {subject}"  # 使用简短的通知格式')
+    .example('mailbot.subscribe -q 23:00-07:00  # 夜间免打扰，早上合并发送')
+    .action(async ({ session, options }, account = '') => {
+      if (account && !config.imap.some(item => item.name === account)) {
+        return `❌ 未找到邮箱账户: ${account}`
+      }
+
+      const filter = options.filter || ''
+      if (filter) {
+        try {
+          new RegExp(filter)
+        } catch (error) {
+          return `❌ 过滤条件不是有效的正则表达式: ${error.message}`
+        }
+      }
+
+      if (options.quiet && options.quiet !== 'none' && !parseQuietHours(options.quiet)) {
+        return '❌ 免打扰时段格式无效，应为 HH:MM-HH:MM'
+      }
+
+      const target = getTarget(session, options.private)
+      const existing = await ctx.database.get('mailbot_subscription', { ...target, account, filter })
+      if (existing.length) {
+        // 已有订阅时只更新通知模板和免打扰时段
+        if (options.template !== undefined || options.quiet !== undefined) {
+          await ctx.database.set('mailbot_subscription', { id: existing[0].id }, {
+            template: options.template ?? existing[0].template,
+            quietHours: options.quiet ?? existing[0].quietHours,
+          })
+          return `📝 已更新订阅 #${existing[0].id} 的设置`
+        }
+        return `📌 已存在相同的订阅 (#${existing[0].id})`
+      }
+
+      const sub = await ctx.database.create('mailbot_subscription', {
+        ...target,
+        account,
+        filter,
+        template: options.template || '',
+        quietHours: options.quiet || '',
+        createdAt: new Date(),
+      })
+
+      logger.info(`新增订阅 #${sub.id}: ${describeTarget(sub)} -> ${account || '所有账户'}`)
+      return `✅ 订阅成功 (#${sub.id})\n` +
+        `📫 账户: ${account || '所有账户'}\n` +
+        `🔍 过滤: ${filter || '无'}\n` +
+        `📝 模板: ${sub.template || '默认'}\n` +
+        `🌙 免打扰: ${sub.quietHours || '默认'}\n` +
+        `📨 目标: ${sub.channelId ? '当前频道' : '私聊'}`
+    })
+
+  ctx.command('mailbot.unsubscribe [account:string]', '取消当前频道或用户的邮件订阅', { authority: config.manageAuthority })
+    .option('private', '-p 取消自己的私聊订阅')
+    .action(async ({ session, options }, account) => {
+      const target = getTarget(session, options.private)
+      const query = account === undefined ? target : { ...target, account }
+      const subs = await ctx.database.get('mailbot_subscription', query)
+      if (!subs.length) {
+        return '📭 没有找到匹配的订阅'
+      }
+
+      await ctx.database.remove('mailbot_subscription', { id: subs.map(sub => sub.id) })
+      logger.info(`移除订阅: ${subs.map(sub => `#${sub.id}`).join(', ')}`)
+      return `🗑️ 已取消 ${subs.length} 个订阅`
+    })
+}
@@ -0,0 +1,37 @@
+// 默认的普通邮件通知模板
+export const DEFAULT_NOTIFY_TEMPLATE = '📮 收到新邮件！\\n📫 账户: {account}\\n📁 文件夹: {folder}\\n📤 发件人: {from}\\n📋 主题: {subject}\\n📅 时间: {date}\\n📄 内容: {body}'
+
+// 默认的验证码通知模板
+export const DEFAULT_CODE_TEMPLATE = '🔐 收到验证码！\\n📫 账户: {account}\\n📁 文件夹: {folder}\\n📤 发件人: {from}\\n📋 主题: {subject}\\n\\n{code}\\n\\n⏰ 有效期: {expiry}'
+
+// 渲染通知模板：将 {name} 占位符替换为对应变量，未知占位符保持原样；
+// 含有占位符且所有占位符都为空的行会被省略，连续的空行合并为一行
+export function renderTemplate(template: string, vars: Record<string, string | number>): string {
+  return template
+    .replace(/\\n/g, '\n')
+    .split('\n')
+    .filter((line) => {
+      const keys = [...line.matchAll(/\{(\w+)\}/g)].map(match => match[1]).filter(key => key in vars)
+      return !keys.length || keys.some(key => vars[key] !== '' && vars[key] !== undefined)
+    })
+    .join('\n')
+    .replace(/\{(\w+)\}/g, (match, key: string) => key in vars ? String(vars[key]) : match)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// 截断过长的文本，maxLength 为 0 时不截断
+export function truncate(text: string, maxLength: number, suffix = '…'): string {
+  if (!maxLength || text.length <= maxLength) return text
+  return text.slice(0, maxLength) + suffix
+}
+
+// 按配置的语言和时区格式化日期，timeZone 为空时使用系统时区
+export function formatDate(date: Date, locale: string, timeZone: string): string {
+  try {
+    return date.toLocaleString(locale || 'zh-CN', { timeZone: timeZone || undefined, hour12: false })
+  } catch (error) {
+    // 语言或时区配置无效
+    return date.toLocaleString('zh-CN', { hour12: false })
+  }
+}
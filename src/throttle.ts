@@ -0,0 +1,73 @@
+import { Schema } from 'koishi'
+
+// 令牌桶限流参数：burst 为桶容量（0 表示不限流），perMinute 为每分钟补充的令牌数
+export interface RateLimitConfig {
+  burst: number
+  perMinute: number
+}
+
+export const RateLimitConfig: Schema<RateLimitConfig> = Schema.object({
+  burst: Schema.natural().description('短时间内最多连续发送的通知数（0 为不限流）').default(0),
+  perMinute: Schema.number().description('每分钟恢复的通知数').default(1).min(0.01),
+})
+
+export interface RateLimiter {
+  take(key: string): boolean // 取出一个令牌，令牌不足时返回 false
+}
+
+// 创建按 key 区分的令牌桶限流器
+export function createRateLimiter(config: RateLimitConfig): RateLimiter {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>()
+
+  const refill = (key: string) => {
+    const now = Date.now()
+    const bucket = buckets.get(key) || { tokens: config.burst, updatedAt: now }
+    bucket.tokens = Math.min(config.burst, bucket.tokens + (now - bucket.updatedAt) / 60000 * config.perMinute)
+    bucket.updatedAt = now
+    buckets.set(key, bucket)
+    return bucket
+  }
+
+  return {
+    take(key) {
+      if (!config.burst) return true
+      const bucket = refill(key)
+      if (bucket.tokens < 1) return false
+      bucket.tokens--
+      return true
+    },
+  }
+}
+
+// 解析免打扰时段，如 "23:00-07:00"，格式无效时返回 null
+export function parseQuietHours(value: string): [number, number] | null {
+  const match = value?.trim().match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/)
+  if (!match) return null
+  const [start, end] = [[match[1], match[2]], [match[3], match[4]]].map(([hour, minute]) => Number(hour) * 60 + Number(minute))
+  if (start >= 24 * 60 || end > 24 * 60) return null
+  return [start, end]
+}
+
+// 获取指定时区的当天分钟数，timeZone 为空时使用系统时区
+function getMinuteOfDay(date: Date, timeZone: string): number {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone: timeZone || undefined, hour: 'numeric', minute: 'numeric', hourCycle: 'h23' }).formatToParts(date)
+    const get = (type: string) => Number(parts.find(part => part.type === type)?.value)
+    return get('hour') * 60 + get('minute')
+  } catch (error) {
+    // 时区配置无效
+    return date.getHours() * 60 + date.getMinutes()
+  }
+}
+
+// 判断当前是否处于免打扰时段，时段可以跨越午夜
+export function isQuietTime(quietHours: string, date: Date, timeZone: string): boolean {
+  const range = parseQuietHours(quietHours)
+  if (!range) return false
+
+  const [start, end] = range
+  const minute = getMinuteOfDay(date, timeZone)
+  return start <= end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end
+}
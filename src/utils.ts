@@ -0,0 +1,116 @@
+// 将通配符模式（* 和 ?）转换为不区分大小写的整串匹配正则
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.')
+  return new RegExp(`^${source}$`, 'i')
+}
+
+// 从 "名称 <地址>" 格式中取出邮件地址，没有尖括号时原样返回
+export function extractAddress(value: string): string {
+  return value.match(/<([^>]+)>/)?.[1].trim() || value.trim()
+}
+
+// 按行将长文本分页，单行超过页长时强制截断
+export function paginate(text: string, pageSize: number): string[] {
+  const pages: string[] = []
+  let current = ''
+  for (const line of text.split('\n')) {
+    let rest = line
+    while (rest.length > pageSize) {
+      if (current) pages.push(current)
+      current = ''
+      pages.push(rest.slice(0, pageSize))
+      rest = rest.slice(pageSize)
+    }
+    if (current && current.length + rest.length + 1 > pageSize) {
+      pages.push(current)
+      current = rest
+    } else {
+      current = current ? `${current}\n${rest}` : rest
+    }
+  }
+  if (current || !pages.length) pages.push(current)
+  return pages
+}
+
+// 解析日期参数：支持 YYYY-MM-DD 等 Date 可识别的格式，以及 7d / 2w 这样的相对天数（周）
+export function parseDateInput(value: string): Date | null {
+  const relative = value.trim().match(/^(\d+)\s*([dw])$/i)
+  if (relative) {
+    const days = Number(relative[1]) * (relative[2].toLowerCase() === 'w' ? 7 : 1)
+    const date = new Date()
+    date.setHours(0, 0, 0, 0)
+    date.setDate(date.getDate() - days)
+    return date
+  }
+
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// 检查时间在指定时区下是否匹配 cron 表达式（分 时 日 月 周），支持 *、列表、范围和步长
+export function matchCron(expression: string, date: Date, timeZone?: string): boolean {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) return false
+
+  const values = getCronValues(date, timeZone)
+  const ranges = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]]
+
+  const matched = fields.map((field, index) => field.split(',').some((part) => {
+    const [range, step = '1'] = part.split('/')
+    let [min, max] = ranges[index]
+    if (range !== '*') {
+      const [start, end] = range.split('-').map(Number)
+      min = start
+      max = end ?? (part.includes('/') ? max : start)
+    }
+    const value = values[index]
+    // 周日可以写作 0 或 7
+    const candidates = index === 4 && value === 0 ? [0, 7] : [value]
+    return candidates.some(value => value >= min && value <= max && (value - min) % Number(step) === 0)
+  }))
+
+  // 与标准 cron 一致：日和周都有限制时满足其一即可，否则都需要满足
+  const [minute, hour, day, month, weekday] = matched
+  const restricted = (field: string) => !field.startsWith('*')
+  const dayMatched = restricted(fields[2]) && restricted(fields[4]) ? day || weekday : day && weekday
+  return minute && hour && month && dayMatched
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// 取出指定时区下的分、时、日、月、星期，时区无效时使用服务器本地时间
+function getCronValues(date: Date, timeZone?: string): number[] {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timeZone || undefined,
+      minute: 'numeric',
+      hour: 'numeric',
+      day: 'numeric',
+      month: 'numeric',
+      weekday: 'short',
+      hourCycle: 'h23',
+    }).formatToParts(date)
+    const get = (type: string) => parts.find(part => part.type === type)?.value
+    return [Number(get('minute')), Number(get('hour')), Number(get('day')), Number(get('month')), WEEKDAYS.indexOf(get('weekday'))]
+  } catch (error) {
+    // 时区配置无效
+    return [date.getMinutes(), date.getHours(), date.getDate(), date.getMonth() + 1, date.getDay()]
+  }
+}
+
+// 校验 cron 表达式格式
+export function isValidCron(expression: string): boolean {
+  const fields = expression.trim().split(/\s+/)
+  return fields.length === 5 && fields.every(field => /^(\*|\d+(-\d+)?)(\/\d+)?(,(\*|\d+(-\d+)?)(\/\d+)?)*$/.test(field))
+}
+
+// 解析时长参数：支持 30s、5m、1h，纯数字按分钟计算，返回毫秒数，格式无效时返回 0
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([smh]?)$/i)
+  if (!match) return 0
+  const unit = { s: 1000, m: 60000, h: 3600000 }[match[2].toLowerCase() || 'm']
+  return Math.round(Number(match[1]) * unit)
+}